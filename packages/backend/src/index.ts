@@ -2,7 +2,13 @@ import express from 'express';
 import { Queue, Worker } from 'bullmq';
 import IORedis from 'ioredis';
 import { Pool } from 'pg'; 
-import { runScan } from '@graphql-sentinel/scanner-engine';
+import {
+  runScan,
+  renderReport,
+  getReportContentType,
+  isReportFormat,
+  REPORT_FORMATS,
+} from '@graphql-sentinel/scanner-engine';
 import type { ScanTarget, ScanResult } from '@graphql-sentinel/shared-types';
 
 const app = express();
@@ -111,6 +117,36 @@ app.get('/scans/:jobId', async (req, res) => {
    }
 });
 
+// Endpoint para descargar el informe de un escaneo (sarif, junit, html, markdown, json)
+app.get('/scans/:jobId/report', async (req, res) => {
+  const jobId = req.params.jobId;
+  const format = req.query.format ?? 'json';
+  if (!isReportFormat(format)) {
+    res.status(400).send({ error: `Formato no válido. Usa uno de: ${REPORT_FORMATS.join(', ')}` });
+    return;
+  }
+  try {
+    const dbResult = await pgPool.query('SELECT * FROM scan_results WHERE id = $1', [jobId]);
+    if (dbResult.rows.length === 0) {
+      res.status(404).send({ message: 'Escaneo no encontrado' });
+      return;
+    }
+    const row = dbResult.rows[0];
+    // En BD solo se guardan los hallazgos: se reconstruye el resultado a partir de la fila
+    const result: ScanResult = {
+      scanId: row.id,
+      target: { id: row.id, url: row.target_url, userContexts: [] },
+      status: row.status,
+      findings: typeof row.findings === 'string' ? JSON.parse(row.findings) : (row.findings ?? []),
+      completedAt: row.completed_at ?? undefined,
+    };
+    res.status(200).type(getReportContentType(format)).send(renderReport(result, format));
+  } catch (error) {
+    console.error('Error al generar informe:', error);
+    res.status(500).send({ error: 'Error interno al generar informe' });
+  }
+});
+
 
 // --- Iniciar Servidor ---
 app.listen(port, () => {
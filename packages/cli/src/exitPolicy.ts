@@ -0,0 +1,126 @@
+import type {
+  ScanResult,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+
+type Severity = VulnerabilityFinding['severity']
+
+/** Códigos de salida del CLI */
+export const EXIT_CODES = {
+  ok: 0,
+  findings: 1, // Hallazgos por encima del umbral o de los máximos por severidad
+  scanFailed: 2, // Escaneo fallido o incompleto, o configuración inválida
+} as const
+
+// De menor a mayor severidad
+const SEVERITY_RANKS: Severity[] = ['Info', 'Low', 'Medium', 'High', 'Critical']
+
+export interface ExitPolicy {
+  failOn: Severity | null // null: ninguna severidad hace fallar por sí sola
+  maxCounts: Partial<Record<Severity, number>>
+}
+
+export interface ExitDecision {
+  code: (typeof EXIT_CODES)[keyof typeof EXIT_CODES]
+  reasons: string[]
+}
+
+/** Interpreta una severidad sin distinguir mayúsculas (ej: 'high' -> 'High') */
+export function parseSeverity(value: string): Severity | undefined {
+  return SEVERITY_RANKS.find(
+    (severity) => severity.toLowerCase() === value.trim().toLowerCase()
+  )
+}
+
+/** Valor de --fail-on: una severidad o 'none' */
+export function parseFailOn(value: string): Severity | null {
+  if (value.trim().toLowerCase() === 'none') return null
+  const severity = parseSeverity(value)
+  if (!severity) {
+    throw new Error(
+      `Severidad no válida para --fail-on: '${value}'. Usa none o una de: ${SEVERITY_RANKS.join(', ')}.`
+    )
+  }
+  return severity
+}
+
+/** Valor de --max-findings, ej: 'medium=5,low=20' */
+export function parseMaxCounts(
+  value: string
+): Partial<Record<Severity, number>> {
+  const maxCounts: Partial<Record<Severity, number>> = {}
+  for (const entry of value.split(',').filter((e) => e.trim())) {
+    const [name, count] = entry.split('=')
+    const severity = parseSeverity(name ?? '')
+    const max = Number(count)
+    if (!severity || !Number.isInteger(max) || max < 0) {
+      throw new Error(
+        `Límite no válido en --max-findings: '${entry.trim()}'. Usa severidad=número (ej: medium=5,low=20).`
+      )
+    }
+    maxCounts[severity] = max
+  }
+  return maxCounts
+}
+
+/**
+ * Decide el código de salida. Un escaneo fallido o incompleto tiene prioridad:
+ * sus hallazgos no bastan para dar la API por revisada.
+ */
+export function evaluateExitPolicy(
+  result: ScanResult,
+  findings: VulnerabilityFinding[],
+  policy: ExitPolicy
+): ExitDecision {
+  const incomplete: string[] = []
+  if (result.status !== 'Completed') {
+    incomplete.push(
+      `El escaneo terminó con estado ${result.status}${result.error ? ` (${result.error})` : ''}.`
+    )
+  }
+  if (result.skippedOperations?.some((s) => s.reason === 'request-budget')) {
+    incomplete.push(
+      'Se agotó el presupuesto de peticiones: la cobertura es parcial.'
+    )
+  }
+
+  const exceeded: string[] = []
+  if (policy.failOn) {
+    const threshold = SEVERITY_RANKS.indexOf(policy.failOn)
+    const failing = findings.filter(
+      (f) => SEVERITY_RANKS.indexOf(f.severity) >= threshold
+    )
+    if (failing.length > 0) {
+      exceeded.push(
+        `${failing.length} hallazgo(s) de severidad ${policy.failOn} o superior.`
+      )
+    }
+  }
+  for (const severity of SEVERITY_RANKS) {
+    const max = policy.maxCounts[severity]
+    if (max === undefined) continue
+    const count = findings.filter((f) => f.severity === severity).length
+    if (count > max) {
+      exceeded.push(`${count} hallazgo(s) ${severity} (máximo ${max}).`)
+    }
+  }
+
+  const code =
+    incomplete.length > 0
+      ? EXIT_CODES.scanFailed
+      : exceeded.length > 0
+        ? EXIT_CODES.findings
+        : EXIT_CODES.ok
+  return { code, reasons: [...incomplete, ...exceeded] }
+}
+
+/** Recuento por severidad, de mayor a menor (ej: 'Critical 0 · High 2 · ...') */
+export function formatSeverityCounts(findings: VulnerabilityFinding[]): string {
+  return [...SEVERITY_RANKS]
+    .reverse()
+    .map(
+      (severity) =>
+        `${severity} ${findings.filter((f) => f.severity === severity).length}`
+    )
+    .join(' · ')
+}
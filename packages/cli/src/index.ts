@@ -1,8 +1,35 @@
 import { Command } from 'commander'
 import fs from 'fs'
 import path from 'path'
-import { runScan } from '@graphql-sentinel/scanner-engine'
-import type { ScanTarget, UserContext } from '@graphql-sentinel/shared-types'
+import {
+  runScan,
+  renderReport,
+  createBaseline,
+  loadBaseline,
+  loadSuppressions,
+  diffFindings,
+  describeClassification,
+  describeLocation,
+  inferReportFormat,
+  isReportFormat,
+  REPORT_FORMATS,
+  ReportFormat,
+} from '@graphql-sentinel/scanner-engine'
+import type {
+  FindingBaseline,
+  FindingSuppression,
+  ScanTarget,
+  UserContext,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import {
+  EXIT_CODES,
+  ExitPolicy,
+  evaluateExitPolicy,
+  formatSeverityCounts,
+  parseFailOn,
+  parseMaxCounts,
+} from './exitPolicy'
 
 const program = new Command()
 
@@ -14,14 +41,89 @@ program
     '-c, --config <path>',
     'Ruta al archivo de configuración JSON del escaneo'
   )
+  .option(
+    '-o, --output <path>',
+    'Escribe el informe en un archivo (formato deducido de la extensión si no se indica --format)'
+  )
+  .option(
+    '-f, --format <format>',
+    `Formato del informe: ${REPORT_FORMATS.join(', ')} (sin --output se imprime en stdout y los logs van a stderr)`
+  )
+  .option(
+    '--record-har <path>',
+    'Graba todas las peticiones y respuestas del escaneo en un archivo HAR'
+  )
+  .option(
+    '--replay-har <path>',
+    'Responde el escaneo desde un archivo HAR grabado, sin acceder a la red'
+  )
+  .option(
+    '--replay-latency',
+    'Con --replay-har, espera la latencia grabada de cada respuesta (necesaria para los chequeos por tiempo)'
+  )
+  .option(
+    '--baseline <path>',
+    'Compara con una baseline (o el JSON de un escaneo anterior): solo los hallazgos nuevos hacen fallar la ejecución'
+  )
+  .option(
+    '--write-baseline <path>',
+    'Guarda los hallazgos de este escaneo como baseline para próximas ejecuciones'
+  )
+  .option(
+    '--suppressions <path>',
+    'Archivo JSON de supresiones (fingerprint, justificación y caducidad)'
+  )
+  .option(
+    '--fail-on <severity>',
+    'Severidad mínima de un hallazgo nuevo para salir con código 1 (none, info, low, medium, high, critical)',
+    'high'
+  )
+  .option(
+    '--max-findings <limits>',
+    'Máximo de hallazgos nuevos por severidad antes de salir con código 1 (ej: medium=5,low=20)'
+  )
+  .option(
+    '-q, --quiet',
+    'Solo imprime un resumen final (y el informe si no se indica --output)'
+  )
+  .addHelpText(
+    'after',
+    `
+Códigos de salida:
+  ${EXIT_CODES.ok}  Escaneo completo sin hallazgos por encima del umbral
+  ${EXIT_CODES.findings}  Hallazgos nuevos por encima de --fail-on o de --max-findings
+  ${EXIT_CODES.scanFailed}  Escaneo fallido o incompleto, o configuración inválida`
+  )
+  .exitOverride((error) => {
+    // Los errores de argumentos no deben confundirse con hallazgos (código 1)
+    process.exit(error.exitCode === 0 ? 0 : EXIT_CODES.scanFailed)
+  })
   .action(async (options) => {
+    // Con el informe en stdout el resto de la salida va a stderr, para que
+    // `sentinel-cli -f json > informe.json` produzca un JSON válido
+    const reportToStdout = !!options.format && !options.output
+    // En modo --quiet el log del motor y el detalle se descartan; el resumen usa `log`
+    const log = reportToStdout
+      ? console.error.bind(console)
+      : console.log.bind(console)
+    if (reportToStdout) {
+      console.log = console.error.bind(console)
+      console.info = console.error.bind(console)
+      console.warn = console.error.bind(console)
+    }
+    if (options.quiet) {
+      console.log = () => undefined
+      console.info = () => undefined
+      console.warn = () => undefined
+    }
     console.log('🚀 Iniciando escaneo con sentinel-cli...')
     console.log('Opciones recibidas:', options)
 
     let scanConfig: Partial<ScanTarget> = {}
+    let configPath = ''
 
     try {
-      const configPath = path.resolve(options.config)
+      configPath = path.resolve(options.config)
       console.log(` Cargando configuración desde: ${configPath}`)
       if (!fs.existsSync(configPath)) {
         throw new Error(
@@ -36,7 +138,56 @@ program
       )
       if (error instanceof Error) console.error(error.message)
       else console.error(error)
-      process.exit(1)
+      process.exit(EXIT_CODES.scanFailed)
+    }
+
+    let reportFormat: ReportFormat | undefined
+    if (options.format || options.output) {
+      const format =
+        options.format ?? inferReportFormat(options.output as string)
+      if (!isReportFormat(format)) {
+        console.error(
+          `\n❌ Error: Formato de informe no válido${format ? ` '${format}'` : ''}. Usa --format con uno de: ${REPORT_FORMATS.join(', ')}.`
+        )
+        process.exit(EXIT_CODES.scanFailed)
+      }
+      reportFormat = format
+    }
+
+    let exitPolicy: ExitPolicy
+    try {
+      exitPolicy = {
+        failOn: parseFailOn(options.failOn),
+        maxCounts: options.maxFindings
+          ? parseMaxCounts(options.maxFindings)
+          : {},
+      }
+    } catch (error) {
+      console.error(
+        `\n❌ Error: ${error instanceof Error ? error.message : error}`
+      )
+      process.exit(EXIT_CODES.scanFailed)
+    }
+
+    if (options.recordHar && options.replayHar) {
+      console.error(
+        '\n❌ Error: --record-har y --replay-har no se pueden usar a la vez.'
+      )
+      process.exit(EXIT_CODES.scanFailed)
+    }
+
+    let baseline: FindingBaseline | undefined
+    let suppressions: FindingSuppression[] = []
+    try {
+      if (options.baseline) baseline = await loadBaseline(options.baseline)
+      if (options.suppressions) {
+        suppressions = await loadSuppressions(options.suppressions)
+      }
+    } catch (error) {
+      console.error('\n❌ Error leyendo la baseline o las supresiones:')
+      if (error instanceof Error) console.error(error.message)
+      else console.error(error)
+      process.exit(EXIT_CODES.scanFailed)
     }
 
     if (
@@ -48,73 +199,177 @@ program
       console.error(
         '\n❌ Error: El archivo de configuración debe contener al menos "url" y un array "userContexts" no vacío.'
       )
-      process.exit(1)
+      process.exit(EXIT_CODES.scanFailed)
     }
 
     const scanTarget: ScanTarget = {
+      ...scanConfig, // dosConfig, batchingConfig, scanPolicy...
       id: crypto.randomUUID(),
       url: scanConfig.url,
-      schema: scanConfig.schema,
+      // Las rutas de schema relativas se resuelven respecto al archivo de configuración
+      schema:
+        scanConfig.schema && !/^https?:\/\//i.test(scanConfig.schema)
+          ? path.resolve(path.dirname(configPath), scanConfig.schema)
+          : scanConfig.schema,
       userContexts: scanConfig.userContexts as UserContext[],
-      bolaConfig: scanConfig.bolaConfig,
+    }
+    if (options.recordHar || options.replayHar) {
+      scanTarget.harConfig = options.recordHar
+        ? { mode: 'record', path: path.resolve(options.recordHar) }
+        : {
+            mode: 'replay',
+            path: path.resolve(options.replayHar),
+            replayLatency: !!options.replayLatency,
+          }
     }
 
     try {
       const result = await runScan(scanTarget)
 
+      if (reportFormat) {
+        const report = renderReport(result, reportFormat)
+        if (options.output) {
+          const outputPath = path.resolve(options.output)
+          fs.writeFileSync(outputPath, report)
+          console.log(`\n📄 Informe ${reportFormat} escrito en: ${outputPath}`)
+        } else {
+          process.stdout.write(`${report}\n`)
+        }
+      }
+
       console.log('\n--- ✅ Resultados del Escaneo ---')
       console.log(`Estado: ${result.status}`)
+      if (result.schemaSource) {
+        console.log(
+          `Schema: ${result.schemaSource.kind}${result.schemaSource.location ? ` (${result.schemaSource.location})` : ''}`
+        )
+      }
+
+      if (result.requestCount !== undefined) {
+        console.log(`Peticiones enviadas: ${result.requestCount}`)
+      }
+      if (result.skippedOperations && result.skippedOperations.length > 0) {
+        console.log(
+          `\n⏭️  Omitidos por la política de escaneo (${result.skippedOperations.length}):`
+        )
+        result.skippedOperations.forEach((skipped) => {
+          console.log(
+            `  [${skipped.reason}] ${skipped.check}${skipped.fieldName ? `: ${skipped.operation} ${skipped.fieldName}` : ''}`
+          )
+        })
+      }
 
       if (result.error) {
         console.error(`Error durante el escaneo: ${result.error}`)
       }
 
-      if (result.findings.length > 0) {
-        console.log('\n🚨 Hallazgos:')
-        result.findings.sort((a, b) => {
-          const severityOrder = {
-            Critical: 4,
-            High: 3,
-            Medium: 2,
-            Low: 1,
-            Info: 0,
-          }
-          return (
-            (severityOrder[b.severity] ?? -1) -
-            (severityOrder[a.severity] ?? -1)
+      if (options.writeBaseline) {
+        if (result.status === 'Completed') {
+          const baselinePath = path.resolve(options.writeBaseline)
+          fs.writeFileSync(
+            baselinePath,
+            JSON.stringify(createBaseline(result), null, 2)
           )
-        })
-        result.findings.forEach((finding) => {
-          console.log(
-            `  [${finding.severity.padEnd(8)}] ${finding.description}`
+          console.log(`\n📌 Baseline escrita en: ${baselinePath}`)
+        } else {
+          console.warn(
+            '\n⚠️  El escaneo no se completó: no se escribe la baseline.'
           )
-          if (finding.recommendation)
-            console.log(`     -> Recomendación: ${finding.recommendation}`)
-        })
+        }
+      }
 
-        const hasCriticalOrHigh = result.findings.some(
-          (f) => f.severity === 'Critical' || f.severity === 'High'
-        )
-        if (hasCriticalOrHigh) {
-          console.error(
-            '\n❗️ Se encontraron vulnerabilidades críticas o altas.'
-          )
-          process.exit(1)
+      const diff = diffFindings(result.findings, baseline, suppressions)
+      if (baseline || options.suppressions) {
+        if (diff.new.length === 0) {
+          console.log('\n👍 No hay hallazgos nuevos sin suprimir.')
+        }
+        printSection('🆕 Nuevos', diff.new)
+        printSection('🔁 Sin cambios respecto a la baseline', diff.unchanged)
+        if (diff.fixed.length > 0) {
+          console.log(`\n✅ Corregidos (${diff.fixed.length}):`)
+          diff.fixed.forEach((fixed) => {
+            console.log(
+              `  [${fixed.severity.padEnd(8)}] ${fixed.description} (${fixed.fingerprint})`
+            )
+          })
+        }
+        if (diff.suppressed.length > 0) {
+          console.log(`\n🔕 Suprimidos (${diff.suppressed.length}):`)
+          diff.suppressed.forEach(({ finding, suppression }) => {
+            console.log(
+              `  [${finding.severity.padEnd(8)}] ${finding.description} (${suppression.fingerprint})`
+            )
+            console.log(
+              `     -> Justificación: ${suppression.justification}${suppression.expiresAt ? ` (hasta ${suppression.expiresAt})` : ''}`
+            )
+          })
         }
+        diff.expiredSuppressions.forEach((suppression) => {
+          console.warn(
+            `\n⚠️  Supresión caducada el ${suppression.expiresAt}: ${suppression.fingerprint} (${suppression.justification})`
+          )
+        })
+      } else if (result.findings.length > 0) {
+        printSection('🚨 Hallazgos', result.findings)
       } else {
         console.log(
           '\n👍 No se encontraron vulnerabilidades con los chequeos actuales.'
         )
       }
-      process.exit(0)
+
+      // Solo los hallazgos nuevos y no suprimidos cuentan para el código de salida
+      const decision = evaluateExitPolicy(result, diff.new, exitPolicy)
+      if (options.quiet) {
+        log(
+          `${result.status} · ${result.findings.length} hallazgo(s), ${diff.new.length} nuevo(s): ${formatSeverityCounts(diff.new)}`
+        )
+        decision.reasons.forEach((reason) => log(`  - ${reason}`))
+        log(`Código de salida: ${decision.code}`)
+      } else if (decision.code !== EXIT_CODES.ok) {
+        console.error('')
+        decision.reasons.forEach((reason) => console.error(`❗️ ${reason}`))
+      }
+      process.exit(decision.code)
     } catch (error) {
       console.error('\n❌ Error inesperado ejecutando el escaneo:')
       if (error instanceof Error) console.error(error.message)
       else console.error(error)
-      process.exit(1)
+      process.exit(EXIT_CODES.scanFailed)
     }
   })
 
+function printSection(title: string, findings: VulnerabilityFinding[]) {
+  if (findings.length === 0) return
+  console.log(`\n${title} (${findings.length}):`)
+  const severityOrder = {
+    Critical: 4,
+    High: 3,
+    Medium: 2,
+    Low: 1,
+    Info: 0,
+  }
+  const sorted = [...findings].sort(
+    (a, b) =>
+      (severityOrder[b.severity] ?? -1) - (severityOrder[a.severity] ?? -1)
+  )
+  sorted.forEach((finding) => {
+    console.log(`  [${finding.severity.padEnd(8)}] ${finding.description}`)
+    if (finding.recommendation)
+      console.log(`     -> Recomendación: ${finding.recommendation}`)
+    const classification = describeClassification(finding)
+    if (classification.length > 0)
+      console.log(`     -> Clasificación: ${classification.join(', ')}`)
+    const location = describeLocation(finding.location)
+    if (location) console.log(`     -> Operación: ${location}`)
+    if (finding.fingerprint)
+      console.log(`     -> Fingerprint: ${finding.fingerprint}`)
+    if (finding.occurrences?.length)
+      console.log(`     -> Apariciones: ${finding.occurrences.length}`)
+    if (finding.requestIds?.length)
+      console.log(`     -> Peticiones: ${finding.requestIds.join(', ')}`)
+  })
+}
+
 program.parse(process.argv)
 
 if (!process.argv.slice(2).length) {
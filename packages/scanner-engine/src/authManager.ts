@@ -0,0 +1,294 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios'
+import type {
+  LoginFlow,
+  ScanTarget,
+  UserContext,
+} from '@graphql-sentinel/shared-types'
+import { buildHeaders, getErrorMessage } from './utils'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+
+const REDACTED = '[REDACTED]'
+const MIN_SECRET_LENGTH = 4 // Valores más cortos se redactarían en cualquier texto
+
+interface AcquiredCredentials {
+  token?: string
+  cookies: Record<string, string>
+}
+
+type ReauthRequestConfig = InternalAxiosRequestConfig & {
+  sentinelAuthRetried?: boolean
+}
+
+export interface AuthManager {
+  /** Ejecuta los flujos de login de los contextos que lo definen */
+  authenticateAll(): Promise<void>
+  /** Cabeceras para actuar como el contexto (sin contexto: petición anónima) */
+  headersFor(context?: UserContext): Record<string, string>
+  /** Contexto con login cuyas credenciales lleva la petición, si lo hay */
+  contextForRequest(headers: unknown): UserContext | undefined
+  /** Repite el login del contexto (una sola vez aunque haya varias peticiones esperando) */
+  reauthenticate(context: UserContext): Promise<void>
+  /** Sustituye los secretos conocidos (tokens, cookies, claves) por [REDACTED] */
+  redact<T>(value: T): T
+}
+
+/** Gestiona las credenciales de los userContexts del escaneo */
+export function createAuthManager(
+  target: ScanTarget,
+  http: AxiosInstance
+): AuthManager {
+  const contexts = target.userContexts ?? []
+  const acquired = new Map<string, AcquiredCredentials>()
+  // Credenciales obtenidas en todos los logins, también las ya renovadas
+  const acquiredSecrets = new Set<string>()
+  const pendingLogins = new Map<string, Promise<void>>()
+
+  const runLogin = async (context: UserContext, flow: LoginFlow) => {
+    try {
+      const credentials = await executeLoginFlow(flow, target.url, http)
+      acquired.set(context.id, credentials)
+      for (const secret of [
+        credentials.token,
+        ...Object.values(credentials.cookies),
+      ]) {
+        if (secret) acquiredSecrets.add(secret)
+      }
+      console.log(`[AuthManager] Login completado para '${context.id}'.`)
+    } catch (error) {
+      rethrowIfBudgetExceeded(error)
+      // Un login fallido no corta el escaneo: el contexto sigue con sus credenciales estáticas
+      console.warn(
+        `[AuthManager] Login fallido para '${context.id}': ${manager.redact(getErrorMessage(error))}`
+      )
+    }
+  }
+
+  const manager: AuthManager = {
+    async authenticateAll() {
+      for (const context of contexts) {
+        if (context.auth?.login) await runLogin(context, context.auth.login)
+      }
+    },
+
+    headersFor(context) {
+      const headers = buildHeaders()
+      if (!context) return headers
+      const auth = context.auth
+      Object.assign(headers, auth?.headers)
+      const credentials = acquired.get(context.id)
+      const token = credentials?.token ?? context.authToken
+      if (token) {
+        headers[auth?.tokenHeader ?? 'Authorization'] =
+          `${auth?.tokenPrefix ?? 'Bearer '}${token}`
+      }
+      const cookies = { ...auth?.cookies, ...credentials?.cookies }
+      if (Object.keys(cookies).length > 0) {
+        headers['Cookie'] = Object.entries(cookies)
+          .map(([name, value]) => `${name}=${value}`)
+          .join('; ')
+      }
+      return headers
+    },
+
+    contextForRequest(headers) {
+      const sent = AxiosHeaders.from(headers as AxiosHeaders)
+      return contexts.find((context) => {
+        if (!context.auth?.login) return false
+        const expected = manager.headersFor(context)
+        const tokenHeader = context.auth.tokenHeader ?? 'Authorization'
+        return [tokenHeader, 'Cookie'].some(
+          (name) =>
+            expected[name] !== undefined && sent.get(name) === expected[name]
+        )
+      })
+    },
+
+    reauthenticate(context) {
+      const flow = context.auth?.login
+      if (!flow) return Promise.resolve()
+      let pending = pendingLogins.get(context.id)
+      if (!pending) {
+        pending = runLogin(context, flow).finally(() =>
+          pendingLogins.delete(context.id)
+        )
+        pendingLogins.set(context.id, pending)
+      }
+      return pending
+    },
+
+    redact(value) {
+      return redactValue(value, collectSecrets(contexts, acquiredSecrets))
+    },
+  }
+  return manager
+}
+
+/**
+ * Ante un 401 de una petición hecha con las credenciales de un contexto con
+ * login, renueva las credenciales y repite la petición una vez.
+ */
+export function attachReauthenticationInterceptor(
+  http: AxiosInstance,
+  auth: AuthManager
+): void {
+  const retry = async (
+    config: ReauthRequestConfig
+  ): Promise<AxiosResponse | null> => {
+    if (config.sentinelAuthRetried) return null
+    const context = auth.contextForRequest(config.headers)
+    if (!context) return null
+    console.log(
+      `[AuthManager] 401 con las credenciales de '${context.id}': renovando y reintentando...`
+    )
+    await auth.reauthenticate(context)
+    const headers = AxiosHeaders.from(config.headers)
+    for (const [name, value] of Object.entries(auth.headersFor(context))) {
+      headers.set(name, value)
+    }
+    const retryConfig: ReauthRequestConfig = {
+      ...config,
+      headers,
+      sentinelAuthRetried: true,
+    }
+    return http.request(retryConfig)
+  }
+
+  http.interceptors.response.use(
+    async (response) =>
+      // Con validateStatus permisivo el 401 llega como respuesta
+      response.status === 401
+        ? ((await retry(response.config)) ?? response)
+        : response,
+    async (error) => {
+      if (
+        error instanceof AxiosError &&
+        error.response?.status === 401 &&
+        error.config
+      ) {
+        const response = await retry(error.config)
+        if (response) return response
+      }
+      return Promise.reject(error)
+    }
+  )
+}
+
+async function executeLoginFlow(
+  flow: LoginFlow,
+  targetUrl: string,
+  http: AxiosInstance
+): Promise<AcquiredCredentials> {
+  if (flow.type === 'client-credentials') {
+    const response = await http.post<{ access_token?: string }>(
+      flow.tokenUrl,
+      new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: flow.clientId,
+        client_secret: flow.clientSecret,
+        ...(flow.scope ? { scope: flow.scope } : {}),
+        ...(flow.audience ? { audience: flow.audience } : {}),
+      }).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      }
+    )
+    if (!response.data?.access_token) {
+      throw new Error('El endpoint de tokens no devolvió access_token.')
+    }
+    return {
+      token: response.data.access_token,
+      cookies: parseSetCookie(response.headers['set-cookie']),
+    }
+  }
+
+  const response = await http.post(
+    flow.url ?? targetUrl,
+    { query: flow.query, variables: flow.variables ?? {} },
+    { headers: buildHeaders() }
+  )
+  const cookies = parseSetCookie(response.headers['set-cookie'])
+  if (!flow.tokenPath) {
+    if (Object.keys(cookies).length === 0) {
+      throw new Error('El login no devolvió cookies y no hay tokenPath.')
+    }
+    return { cookies }
+  }
+  const token = flow.tokenPath
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      response.data
+    )
+  if (typeof token !== 'string' || !token) {
+    throw new Error(`La respuesta del login no contiene '${flow.tokenPath}'.`)
+  }
+  return { token, cookies }
+}
+
+function parseSetCookie(header: string[] | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {}
+  for (const cookie of header ?? []) {
+    const match = cookie.match(/^\s*([^=;\s]+)=([^;]*)/)
+    if (match) cookies[match[1]] = match[2]
+  }
+  return cookies
+}
+
+/** Todos los valores secretos conocidos: configurados y obtenidos en los logins */
+function collectSecrets(
+  contexts: UserContext[],
+  acquiredSecrets: Set<string>
+): string[] {
+  const secrets: unknown[] = [...acquiredSecrets]
+  for (const context of contexts) {
+    const auth = context.auth
+    secrets.push(
+      context.authToken,
+      ...Object.values(auth?.headers ?? {}),
+      ...Object.values(auth?.cookies ?? {})
+    )
+    if (auth?.login?.type === 'client-credentials') {
+      secrets.push(auth.login.clientSecret)
+    } else if (auth?.login?.type === 'graphql') {
+      secrets.push(...Object.values(auth.login.variables ?? {}))
+    }
+  }
+  return [
+    ...new Set(
+      secrets.filter(
+        (s): s is string =>
+          typeof s === 'string' && s.length >= MIN_SECRET_LENGTH
+      )
+    ),
+  ].sort((a, b) => b.length - a.length) // Primero los más largos (pueden contener a otros)
+}
+
+function redactValue<T>(value: T, secrets: string[]): T {
+  if (typeof value === 'string') {
+    return secrets.reduce(
+      (text, secret) => text.split(secret).join(REDACTED),
+      value as string
+    ) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, secrets)) as T
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactValue(item, secrets),
+      ])
+    ) as T
+  }
+  return value
+}
@@ -0,0 +1,343 @@
+import { AxiosInstance } from 'axios'
+import {
+  GraphQLSchema,
+  GraphQLError,
+  GraphQLField,
+  getNamedType,
+  isObjectType,
+  isAbstractType,
+  isNonNullType,
+  print,
+  Kind,
+  ArgumentNode,
+} from 'graphql'
+import type {
+  ArgumentValueOverrides,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { createFinding, getErrorMessage, splitIdentifierWords } from './utils'
+import { synthesizeFieldArguments } from './graphUtils'
+import { Check, CheckContext } from './types'
+import { ScanPolicy, rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+const DEFAULT_BATCH_SIZES = [2, 10, 50, 100, 500]
+const DEFAULT_ALIAS_COUNTS = [10, 100, 500, 1000]
+const BATCH_FINDING_THRESHOLD = 10 // A partir de aquí el batching es explotable
+// Una mutation tiene efectos: se repite lo justo para superar el umbral
+const MAX_MUTATION_REPETITIONS = 20
+// Mutations típicas de fuerza bruta (login, OTP, contraseñas...), por palabras
+// completas del nombre unidas con '_' (ej: 'verifyOtp' -> 'verify_otp')
+const SENSITIVE_MUTATION_PATTERN =
+  /(^|_)(log_?in|sign_?in|auth|authenticate|otp|totp|mfa|2fa|pin|passcode|password|passwd|verify|verification|reset|token)(_|$)/
+
+interface BatchingTarget {
+  operation: 'query' | 'mutation'
+  fieldName: string
+  selection: string // Selección del campo repetido, ya impresa
+  variableDefinitions: string // Ej: '($email: String!)', vacío si no hay
+  variables: Record<string, unknown> // Compartidas por todas las repeticiones
+}
+
+export const batchingCheck: Check = {
+  id: 'batching',
+  category: 'availability',
+  description: 'Batching por array y por alias sin límite',
+  run: runBatchingChecks,
+}
+
+/** Ejecuta los chequeos de batching (array JSON y alias) */
+export async function runBatchingChecks(context: CheckContext): Promise<void> {
+  const { target, headers, findings, schema, session } = context
+  const batchTarget = selectBatchingTarget(
+    schema,
+    session.policy,
+    target.batchingConfig?.fieldName,
+    target.argumentValues
+  )
+  console.log(
+    `[BatchingScanner] Operación repetida: ${batchTarget.operation} ${batchTarget.fieldName}`
+  )
+
+  // --- Chequeo Batching - Array JSON ---
+  console.log('[BatchingScanner] Ejecutando chequeo de batching por array...')
+  const maxRepetitions = repetitionLimitFor(batchTarget)
+  const batchSizes = limitSizes(
+    DEFAULT_BATCH_SIZES,
+    minLimit(target.batchingConfig?.maxBatchSize, maxRepetitions)
+  )
+  const maxBatch = await findAcceptedLimit(batchSizes, (size) =>
+    sendArrayBatch(session.http, target.url, headers, batchTarget, size)
+  )
+  reportAcceptedLimit(findings, 'array', batchTarget, maxBatch, batchSizes)
+
+  // --- Chequeo Batching - Alias ---
+  console.log('[BatchingScanner] Ejecutando chequeo de batching por alias...')
+  const aliasCounts = limitSizes(
+    DEFAULT_ALIAS_COUNTS,
+    minLimit(target.batchingConfig?.maxAliasCount, maxRepetitions)
+  )
+  const maxAliases = await findAcceptedLimit(aliasCounts, (count) =>
+    sendAliasBatch(session.http, target.url, headers, batchTarget, count)
+  )
+  reportAcceptedLimit(findings, 'alias', batchTarget, maxAliases, aliasCounts)
+
+  console.log('[BatchingScanner] Chequeos de batching completados.')
+}
+
+/**
+ * Elige el campo a repetir: el configurado (único caso en que se usa una
+ * mutation), una query sin argumentos obligatorios o, en último caso,
+ * __typename.
+ */
+function selectBatchingTarget(
+  schema: GraphQLSchema | null,
+  policy: ScanPolicy,
+  preferredFieldName?: string,
+  overrides?: ArgumentValueOverrides
+): BatchingTarget {
+  const fallback: BatchingTarget = {
+    operation: 'query',
+    fieldName: '__typename',
+    selection: '__typename',
+    variableDefinitions: '',
+    variables: {},
+  }
+  if (!schema) return fallback
+
+  const candidates: {
+    operation: 'query' | 'mutation'
+    field: GraphQLField<unknown, unknown>
+  }[] = []
+  const mutationFields = Object.values(
+    schema.getMutationType()?.getFields() ?? {}
+  )
+  const queryFields = Object.values(schema.getQueryType()?.getFields() ?? {})
+  if (preferredFieldName) {
+    candidates.push(
+      ...mutationFields
+        .filter((f) => f.name === preferredFieldName)
+        .map((field) => ({ operation: 'mutation' as const, field })),
+      ...queryFields
+        .filter((f) => f.name === preferredFieldName)
+        .map((field) => ({ operation: 'query' as const, field }))
+    )
+  }
+  candidates.push(
+    ...queryFields
+      .filter((f) => !f.args.some((a) => isNonNullType(a.type)))
+      .map((field) => ({ operation: 'query' as const, field }))
+  )
+
+  for (const { operation, field } of candidates) {
+    if (!policy.allows('batching', operation, field.name)) continue
+    const args = synthesizeFieldArguments(field, overrides)
+    if (!args) continue
+    return {
+      operation,
+      fieldName: field.name,
+      selection: printFieldSelection(field, args.argumentNodes),
+      variableDefinitions: args.variableDefinitions.length
+        ? `(${args.variableDefinitions.map((d) => print(d)).join(', ')})`
+        : '',
+      variables: args.variables,
+    }
+  }
+  return fallback
+}
+
+/** Imprime `campo(args) { __typename }` (sin sub-selección si es escalar) */
+function printFieldSelection(
+  field: GraphQLField<unknown, unknown>,
+  args: ArgumentNode[]
+): string {
+  const namedType = getNamedType(field.type)
+  const needsSelection = isObjectType(namedType) || isAbstractType(namedType)
+  return print({
+    kind: Kind.FIELD,
+    name: { kind: Kind.NAME, value: field.name },
+    arguments: args,
+    selectionSet: needsSelection
+      ? {
+          kind: Kind.SELECTION_SET,
+          selections: [
+            {
+              kind: Kind.FIELD,
+              name: { kind: Kind.NAME, value: '__typename' },
+            },
+          ],
+        }
+      : undefined,
+  })
+}
+
+/** Prueba tamaños crecientes y devuelve el mayor aceptado (0 si ninguno) */
+async function findAcceptedLimit(
+  sizes: number[],
+  probe: (size: number) => Promise<boolean>
+): Promise<number> {
+  let accepted = 0
+  for (const size of sizes) {
+    const ok = await probe(size)
+    if (!ok) break
+    accepted = size
+  }
+  return accepted
+}
+
+/** Envía N operaciones en un único array JSON */
+async function sendArrayBatch(
+  http: AxiosInstance,
+  url: string,
+  headers: Record<string, string>,
+  batchTarget: BatchingTarget,
+  size: number
+): Promise<boolean> {
+  const query = `${batchTarget.operation}${batchTarget.variableDefinitions} { ${batchTarget.selection} }`
+  const batch = Array.from({ length: size }, () => ({
+    query,
+    variables: batchTarget.variables,
+  }))
+  try {
+    const response = await http.post<unknown>(url, batch, {
+      headers,
+    })
+    const results = response.data
+    return (
+      Array.isArray(results) &&
+      results.length === size &&
+      results.every((r) => isExecutedResult(r))
+    )
+  } catch (error) {
+    rethrowIfBudgetExceeded(error)
+    console.log(
+      `[BatchingScanner] Batch de ${size} operaciones rechazado: ${getErrorMessage(error)}`
+    )
+    return false
+  }
+}
+
+/** Envía un documento con N alias del mismo campo */
+async function sendAliasBatch(
+  http: AxiosInstance,
+  url: string,
+  headers: Record<string, string>,
+  batchTarget: BatchingTarget,
+  count: number
+): Promise<boolean> {
+  const selections = Array.from(
+    { length: count },
+    (_, i) => `a${i}: ${batchTarget.selection}`
+  ).join(' ')
+  const query = `${batchTarget.operation}${batchTarget.variableDefinitions} { ${selections} }`
+  try {
+    const response = await http.post<{
+      data?: Record<string, unknown>
+      errors?: readonly GraphQLError[]
+    }>(url, { query, variables: batchTarget.variables }, { headers })
+    return (
+      isExecutedResult(response.data) &&
+      Object.keys(response.data.data ?? {}).length === count
+    )
+  } catch (error) {
+    rethrowIfBudgetExceeded(error)
+    console.log(
+      `[BatchingScanner] Documento con ${count} alias rechazado: ${getErrorMessage(error)}`
+    )
+    return false
+  }
+}
+
+/**
+ * Un resultado se considera ejecutado si trae `data` y ningún error a nivel de
+ * documento (los errores sin `path` son de parseo/validación o de límites).
+ */
+function isExecutedResult(result: unknown): result is {
+  data?: Record<string, unknown>
+  errors?: readonly GraphQLError[]
+} {
+  if (!result || typeof result !== 'object') return false
+  const { data, errors } = result as {
+    data?: unknown
+    errors?: readonly GraphQLError[]
+  }
+  if (!data || typeof data !== 'object') return false
+  return !errors || errors.every((e) => Array.isArray(e.path))
+}
+
+/** Tope de repeticiones por petición: bajo si la operación tiene efectos */
+function repetitionLimitFor(batchTarget: BatchingTarget): number | undefined {
+  return batchTarget.operation === 'mutation'
+    ? MAX_MUTATION_REPETITIONS
+    : undefined
+}
+
+function minLimit(...limits: (number | undefined)[]): number | undefined {
+  const defined = limits.filter((l): l is number => !!l)
+  return defined.length ? Math.min(...defined) : undefined
+}
+
+/** Mutation sensible a fuerza bruta por su nombre (login, verifyOtp, signIn...) */
+function isSensitiveMutation(fieldName: string): boolean {
+  return SENSITIVE_MUTATION_PATTERN.test(
+    splitIdentifierWords(fieldName).join('_')
+  )
+}
+
+function limitSizes(sizes: number[], max?: number): number[] {
+  if (!max) return sizes
+  const limited = sizes.filter((s) => s < max)
+  return [...limited, max]
+}
+
+/** Registra el límite aceptado como hallazgo con severidad según el campo */
+function reportAcceptedLimit(
+  findings: VulnerabilityFinding[],
+  mode: 'array' | 'alias',
+  batchTarget: BatchingTarget,
+  acceptedLimit: number,
+  testedSizes: number[]
+) {
+  const label = mode === 'array' ? 'operaciones por array' : 'alias'
+  if (acceptedLimit < BATCH_FINDING_THRESHOLD) {
+    console.log(
+      `[BatchingScanner] Chequeo de batching (${label}) OK (máximo aceptado: ${acceptedLimit}).`
+    )
+    return
+  }
+
+  const severity =
+    batchTarget.operation === 'mutation'
+      ? isSensitiveMutation(batchTarget.fieldName)
+        ? 'Critical'
+        : 'High'
+      : batchTarget.fieldName === '__typename'
+        ? 'Low'
+        : 'Medium'
+  const description =
+    mode === 'array'
+      ? `Batching de Operaciones por Array Permitido (${batchTarget.fieldName})`
+      : `Batching por Alias Permitido (${batchTarget.fieldName})`
+  findings.push(
+    createFinding(
+      severity,
+      description,
+      `El servidor aceptó ${acceptedLimit} ${label} de ${batchTarget.operation} '${batchTarget.fieldName}' en una sola petición HTTP, lo que permite evadir rate limits (ej: fuerza bruta de login/OTP). Limita el número de operaciones/alias por petición y aplica rate limiting por operación.`,
+      {
+        mode,
+        operation: batchTarget.operation,
+        fieldName: batchTarget.fieldName,
+        acceptedLimit,
+        testedSizes,
+      },
+      {
+        ...FINDING_CLASSES.batching,
+        confidence: 'High',
+        location: {
+          operation: batchTarget.operation,
+          field: batchTarget.fieldName,
+        },
+      }
+    )
+  )
+}
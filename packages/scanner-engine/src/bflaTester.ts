@@ -0,0 +1,219 @@
+import { AxiosError } from 'axios'
+import { GraphQLError, print } from 'graphql'
+import type { UserContext } from '@graphql-sentinel/shared-types'
+import {
+  createFinding,
+  getErrorMessage,
+  matchesOperationPattern,
+  contextRole,
+  buildReproduction,
+  splitIdentifierWords,
+} from './utils'
+import { buildRootFieldOperation } from './graphUtils'
+import { Check, CheckContext } from './types'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+// Palabras que en el nombre de una operación suelen indicar que está reservada a
+// administradores. Se comparan palabras completas: 'ban' no es 'bankAccount'
+const PRIVILEGED_OPERATION_WORDS = new Set([
+  'admin',
+  'admins',
+  'internal',
+  'debug',
+  'impersonate',
+  'role',
+  'roles',
+  'permission',
+  'permissions',
+  'grant',
+  'revoke',
+  'ban',
+  'unban',
+  'suspend',
+  'stats',
+  'audit',
+])
+
+type OperationExpectation = 'allowed' | 'denied' | 'unknown'
+
+export const bflaCheck: Check = {
+  id: 'bfla',
+  category: 'authorization',
+  description: 'Operaciones ejecutables por roles sin permiso (BFLA)',
+  requiresSchema: true,
+  run: runBflaChecks,
+}
+
+/** Ejecuta las pruebas de autorización a nivel de función (BFLA) */
+export async function runBflaChecks(context: CheckContext): Promise<void> {
+  const { target, schema, findings, session } = context
+  if (!schema) {
+    console.log('[BflaTester] Saltando chequeo BFLA (schema no disponible).')
+    return
+  }
+  const contexts = target.userContexts ?? []
+  const hasExpectations = contexts.some(
+    (c) =>
+      c.allowedOperations?.length ||
+      c.deniedOperations?.length ||
+      c.privilegeLevel !== undefined
+  )
+  if (!hasExpectations) {
+    console.log(
+      '[BflaTester] Saltando chequeo BFLA (ningún userContext define role/privilegeLevel u operaciones permitidas/denegadas).'
+    )
+    return
+  }
+
+  const operations = [
+    ...Object.keys(schema.getQueryType()?.getFields() ?? {}).map(
+      (fieldName) => ({ operation: 'query' as const, fieldName })
+    ),
+    ...Object.keys(schema.getMutationType()?.getFields() ?? {}).map(
+      (fieldName) => ({ operation: 'mutation' as const, fieldName })
+    ),
+  ]
+  const maxPrivilegeLevel = Math.max(
+    ...contexts.map((c) => c.privilegeLevel ?? 0)
+  )
+  console.log(
+    `[BflaTester] Probando ${operations.length} operaciones con ${contexts.length} contextos...`
+  )
+
+  for (const context of contexts) {
+    const headers = session.auth.headersFor(context)
+    for (const { operation, fieldName } of operations) {
+      const expectation = resolveExpectation(
+        context,
+        operation,
+        fieldName,
+        maxPrivilegeLevel
+      )
+      // Solo interesan las operaciones que este contexto NO debería poder usar
+      if (expectation !== 'denied') continue
+      if (!session.policy.allows('bfla', operation, fieldName)) continue
+
+      const built = buildRootFieldOperation(
+        schema,
+        operation,
+        fieldName,
+        target.argumentValues
+      )
+      if (!built) {
+        console.warn(
+          `[BflaTester] No se pudo construir la operación para ${fieldName}`
+        )
+        continue
+      }
+      const query = print(built.document)
+      const { variables } = built
+
+      try {
+        const response = await session.http.post<{
+          data?: Record<string, unknown>
+          errors?: readonly GraphQLError[]
+        }>(target.url, { query, variables }, { headers })
+        const responseData = response.data?.data?.[fieldName]
+        const responseErrors = response.data?.errors
+
+        if (
+          responseData !== null &&
+          responseData !== undefined &&
+          !responseErrors?.some((e) => isAuthorizationError(e.message))
+        ) {
+          findings.push(
+            createFinding(
+              operation === 'mutation' ? 'Critical' : 'High',
+              `BFLA Detectado (${fieldName})`,
+              `El contexto '${context.id}'${context.role ? ` (rol '${context.role}')` : ''} pudo ejecutar ${operation} '${fieldName}', que debería estar denegada para él. Verifica la autorización por rol/función en el resolver.`,
+              {
+                context: context.id,
+                role: context.role,
+                privilegeLevel: context.privilegeLevel,
+                operation,
+                fieldName,
+                query,
+                variables,
+                response: responseData,
+              },
+              {
+                ...FINDING_CLASSES.bfla,
+                confidence: 'High',
+                location: {
+                  operation,
+                  field: fieldName,
+                  attacker: contextRole(context),
+                },
+                reproduction: buildReproduction(target.url, headers, {
+                  query,
+                  variables,
+                }),
+              }
+            )
+          )
+        }
+      } catch (error) {
+        rethrowIfBudgetExceeded(error)
+        if (
+          error instanceof AxiosError &&
+          (error.response?.status === 401 || error.response?.status === 403)
+        ) {
+          // Acceso denegado a nivel HTTP, es lo esperado.
+        } else {
+          console.warn(
+            `[BflaTester] Error probando ${operation} ${fieldName} como ${context.id}: ${getErrorMessage(error)}`
+          )
+        }
+      }
+    }
+  }
+  console.log('[BflaTester] Chequeo BFLA completado.')
+}
+
+/**
+ * Decide si una operación debería estar permitida o denegada para un contexto:
+ * primero las listas explícitas y, si no las hay, el nivel de privilegio frente
+ * a operaciones con nombre de administración.
+ */
+function resolveExpectation(
+  context: UserContext,
+  operation: 'query' | 'mutation',
+  fieldName: string,
+  maxPrivilegeLevel: number
+): OperationExpectation {
+  const matches = (patterns?: string[]) =>
+    patterns?.some((p) => matchesOperationPattern(p, operation, fieldName))
+
+  if (matches(context.deniedOperations)) return 'denied'
+  if (context.allowedOperations?.length) {
+    return matches(context.allowedOperations) ? 'allowed' : 'denied'
+  }
+  if (
+    context.privilegeLevel !== undefined &&
+    context.privilegeLevel < maxPrivilegeLevel &&
+    isPrivilegedOperation(fieldName)
+  ) {
+    return 'denied'
+  }
+  return 'unknown'
+}
+
+/** Indica si el nombre de la operación sugiere que es solo para administradores */
+export function isPrivilegedOperation(fieldName: string): boolean {
+  return splitIdentifierWords(fieldName).some((word) =>
+    PRIVILEGED_OPERATION_WORDS.has(word)
+  )
+}
+
+function isAuthorizationError(message: string): boolean {
+  const lower = message.toLowerCase()
+  return (
+    lower.includes('unauthorized') ||
+    lower.includes('unauthenticated') ||
+    lower.includes('forbidden') ||
+    lower.includes('access denied') ||
+    lower.includes('not authorized') ||
+    lower.includes('permission')
+  )
+}
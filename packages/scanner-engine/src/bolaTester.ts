@@ -1,28 +1,40 @@
-import axios, { AxiosError } from 'axios'
-import { GraphQLSchema, GraphQLError, print } from 'graphql'
+import { AxiosError } from 'axios'
+import { GraphQLError, print } from 'graphql'
 import type {
-  ScanTarget,
+  FindingLocation,
+  FindingReproduction,
   VulnerabilityFinding,
   UserContext,
 } from '@graphql-sentinel/shared-types'
-import { createFinding, getErrorMessage, buildHeaders, delay } from './utils'
+import {
+  createFinding,
+  getErrorMessage,
+  contextRole,
+  buildReproduction,
+} from './utils'
 
-import { BolaPointOfInterest } from './types'
+import { BolaPointOfInterest, Check, CheckContext } from './types'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
 import {
   buildGraphQLOperation,
   findBolaPointsOfInterest,
   inferObjectTypeFromFieldName,
+  resolveGlobalId,
 } from './graphUtils'
 
-const BOLA_REQUEST_TIMEOUT = 15000
-const BOLA_INTER_REQUEST_DELAY = 50
+export const bolaCheck: Check = {
+  id: 'bola',
+  category: 'authorization',
+  description: 'Acceso a objetos de otros usuarios (BOLA/IDOR)',
+  requiresSchema: true,
+  minUserContexts: 2,
+  run: runBolaChecks,
+}
 
 /** Ejecuta el ciclo completo de pruebas BOLA */
-export async function runBolaChecks(
-  target: ScanTarget,
-  schema: GraphQLSchema | null,
-  findings: VulnerabilityFinding[]
-): Promise<void> {
+export async function runBolaChecks(context: CheckContext): Promise<void> {
+  const { target, schema, findings, session } = context
   const canRunBola = target.userContexts && target.userContexts.length >= 2
   if (!canRunBola) {
     console.log(
@@ -36,13 +48,20 @@ export async function runBolaChecks(
   }
 
   console.log('[BolaTester] Descubriendo puntos de prueba BOLA...')
+  // Las suscripciones se prueban por WebSocket (subscriptionScanner)
   const bolaPoints = findBolaPointsOfInterest(
     schema,
     target.bolaConfig?.targetObjectTypes
-  )
+  ).filter((p) => p.operation !== 'subscription')
   console.log(
     `[BolaTester] ${bolaPoints.length} puntos de prueba BOLA identificados.`
   )
+  const relayPoints = bolaPoints.filter((p) => p.relayField)
+  if (relayPoints.length > 0) {
+    console.log(
+      `[BolaTester] Interfaz Relay detectada (${[...new Set(relayPoints.map((p) => p.fieldName))].join(', ')}); tipos: ${[...new Set(relayPoints.map((p) => p.returnTypeName))].join(', ')}.`
+    )
+  }
 
   if (bolaPoints.length === 0) {
     // Añadir finding informativo solo si no se filtró por tipos específicos
@@ -54,7 +73,9 @@ export async function runBolaChecks(
         createFinding(
           'Info',
           'No se encontraron puntos de prueba BOLA',
-          'El análisis del schema no identificó queries/mutations obvias con argumentos ID para probar BOLA.'
+          'El análisis del schema no identificó queries/mutations obvias con argumentos ID para probar BOLA.',
+          undefined,
+          { category: FINDING_CLASSES.bola.category }
         )
       )
     } else {
@@ -62,7 +83,9 @@ export async function runBolaChecks(
         createFinding(
           'Info',
           'No se encontraron puntos de prueba BOLA para los tipos especificados',
-          `No se encontraron queries/mutations con argumentos ID que devuelvan los tipos [${target.bolaConfig.targetObjectTypes.join(', ')}] para probar BOLA.`
+          `No se encontraron queries/mutations con argumentos ID que devuelvan los tipos [${target.bolaConfig.targetObjectTypes.join(', ')}] para probar BOLA.`,
+          undefined,
+          { category: FINDING_CLASSES.bola.category }
         )
       )
     }
@@ -77,13 +100,16 @@ export async function runBolaChecks(
 
   for (const attackerContext of target.userContexts) {
     console.log(`[BolaTester] Probando como atacante: ${attackerContext.id}`)
-    const attackerHeaders = buildHeaders(attackerContext.authToken)
+    const attackerHeaders = session.auth.headersFor(attackerContext)
 
     for (const victimContext of target.userContexts) {
       if (attackerContext.id === victimContext.id) continue
       // console.log(`  [BolaTester] Intentando acceder a objetos de víctima: ${victimContext.id}`);
 
       for (const point of bolaPoints) {
+        if (!session.policy.allows('bola', point.operation, point.fieldName)) {
+          continue
+        }
         const objectType =
           point.returnTypeName || inferObjectTypeFromFieldName(point.fieldName)
         const victimObjectIds = victimContext.ownedObjectIds[objectType] || []
@@ -91,35 +117,38 @@ export async function runBolaChecks(
         if (victimObjectIds.length === 0) continue
 
         for (const victimObjectId of victimObjectIds) {
-          const testKey = `${attackerContext.id}-${point.operation}-${point.fieldName}-${victimObjectId}`
+          // Con Relay, node/nodes se prueba una vez por tipo: el mismo ID puede ser de varios
+          const testKey = `${attackerContext.id}-${point.operation}-${point.fieldName}-${objectType}-${victimObjectId}`
           if (testedVictimObjects.has(testKey)) continue
           testedVictimObjects.add(testKey)
 
           // console.log(`      [BolaTester] Probando ${point.operation} ${point.fieldName}(${point.idArgName}: "${victimObjectId}")`);
 
-          const operationNode = buildGraphQLOperation(
+          const built = buildGraphQLOperation(
             point,
             victimObjectId,
-            schema
+            schema,
+            target.argumentValues
           )
-          if (!operationNode) {
+          if (!built) {
             console.warn(
               `      [BolaTester] No se pudo construir la operación para ${point.fieldName}`
             )
             continue
           }
 
-          const query = print(operationNode)
+          const query = print(built.document)
+          const { variables } = built
+          const reproduction = buildReproduction(target.url, attackerHeaders, {
+            query,
+            variables,
+          })
 
           try {
-            const response = await axios.post<{
+            const response = await session.http.post<{
               data?: Record<string, any>
               errors?: readonly GraphQLError[]
-            }>(
-              target.url,
-              { query },
-              { headers: attackerHeaders, timeout: BOLA_REQUEST_TIMEOUT }
-            )
+            }>(target.url, { query, variables }, { headers: attackerHeaders })
 
             const responseData = response.data?.data?.[point.fieldName]
             const responseErrors = response.data?.errors
@@ -132,9 +161,12 @@ export async function runBolaChecks(
               victimObjectId,
               responseData,
               responseErrors,
-              query
+              query,
+              variables,
+              reproduction
             )
           } catch (error) {
+            rethrowIfBudgetExceeded(error)
             // console.warn(`      [BolaTester] Error en prueba BOLA (${point.fieldName}, id: ${victimObjectId}): ${getErrorMessage(error)}`);
             if (
               error instanceof AxiosError &&
@@ -147,12 +179,21 @@ export async function runBolaChecks(
                   'Low',
                   `Error Inesperado en Prueba BOLA (${point.fieldName})`,
                   `La petición BOLA para el objeto ${victimObjectId} de ${victimContext.id} (atacante ${attackerContext.id}) falló con: ${getErrorMessage(error)}`,
-                  { query }
+                  { query, variables },
+                  {
+                    ...FINDING_CLASSES.scanError,
+                    confidence: 'Low',
+                    location: bolaLocation(
+                      point,
+                      attackerContext,
+                      victimContext
+                    ),
+                    reproduction,
+                  }
                 )
               )
             }
           }
-          await delay(BOLA_INTER_REQUEST_DELAY)
         }
       }
     }
@@ -169,9 +210,21 @@ function analyzeBolaResponse(
   victimObjectId: string,
   responseData: any,
   responseErrors: readonly GraphQLError[] | undefined,
-  query: string
+  query: string,
+  variables: Record<string, unknown>,
+  reproduction: FindingReproduction
 ) {
-  const testDesc = `${point.operation} ${point.fieldName}(${point.idArgName}: "${victimObjectId}")`
+  const globalId =
+    point.relayField && point.returnTypeName
+      ? resolveGlobalId(point.returnTypeName, victimObjectId)
+      : undefined
+  const testDesc = globalId
+    ? `${point.operation} ${point.fieldName}(${point.idArgName}: "${globalId}") [${point.returnTypeName}:${victimObjectId}]`
+    : `${point.operation} ${point.fieldName}(${point.idArgName}: "${victimObjectId}")`
+  if (point.relayField) {
+    // Solo cuenta como acceso si vuelve un nodo del tipo esperado
+    responseData = extractRelayNode(responseData, point.returnTypeName)
+  }
 
   if (
     responseErrors &&
@@ -201,7 +254,13 @@ function analyzeBolaResponse(
           severity,
           'BOLA Detectado',
           `Usuario '${attacker.id}' pudo ejecutar ${testDesc} sobre objeto de '${victim.id}' y obtuvo/modificó datos. Verificar autorización en el resolver.`,
-          { query: query, response: responseData }
+          { query: query, variables, response: responseData, globalId },
+          {
+            ...FINDING_CLASSES.bola,
+            confidence: 'High', // La respuesta trae datos del objeto ajeno
+            location: bolaLocation(point, attacker, victim),
+            reproduction,
+          }
         )
       )
     } else {
@@ -224,3 +283,33 @@ function analyzeBolaResponse(
     // console.log(`      [BolaTester] BOLA Check para ${testDesc} no concluyente (respuesta inesperada: ${JSON.stringify(responseData)}).`);
   }
 }
+
+/** Extrae de la respuesta de node/nodes el nodo del tipo esperado, si lo hay */
+function extractRelayNode(
+  responseData: unknown,
+  typeName?: string
+): Record<string, unknown> | null {
+  const candidates = Array.isArray(responseData) ? responseData : [responseData]
+  const node = candidates.find(
+    (item) =>
+      item &&
+      typeof item === 'object' &&
+      (item as { __typename?: string }).__typename === typeName
+  )
+  return (node as Record<string, unknown> | undefined) ?? null
+}
+
+/** Un hallazgo BOLA por operación y par atacante/víctima, sea cual sea el objeto */
+function bolaLocation(
+  point: BolaPointOfInterest,
+  attacker: UserContext,
+  victim: UserContext
+): FindingLocation {
+  return {
+    operation: point.operation,
+    field: point.fieldName,
+    argument: point.idArgName,
+    attacker: contextRole(attacker),
+    victim: contextRole(victim),
+  }
+}
@@ -0,0 +1,60 @@
+import type { ChecksConfig, SkipReason } from '@graphql-sentinel/shared-types'
+import { GraphQLSchema } from 'graphql'
+import { Check } from './types'
+import { dosCheck } from './dosScanner'
+import { batchingCheck } from './batchingScanner'
+import { injectionCheck } from './injectionFuzzer'
+import { csrfCheck } from './csrfScanner'
+import { unauthenticatedCheck } from './unauthenticatedScanner'
+import { bolaCheck } from './bolaTester'
+import { bflaCheck } from './bflaTester'
+import { subscriptionCheck } from './subscriptionScanner'
+
+// Orden de ejecución de los checks incluidos en el motor
+const BUILTIN_CHECKS: Check[] = [
+  dosCheck,
+  batchingCheck,
+  injectionCheck,
+  csrfCheck,
+  unauthenticatedCheck,
+  bolaCheck,
+  bflaCheck,
+  subscriptionCheck,
+]
+
+const registeredChecks = new Map<string, Check>(
+  BUILTIN_CHECKS.map((check) => [check.id, check])
+)
+
+/** Registra un check adicional (ej: checks propios desde otro paquete); se ejecuta tras los incluidos */
+export function registerCheck(check: Check): void {
+  if (registeredChecks.has(check.id)) {
+    throw new Error(`Ya existe un check registrado con id '${check.id}'.`)
+  }
+  registeredChecks.set(check.id, check)
+}
+
+/** Checks registrados en orden de ejecución */
+export function getRegisteredChecks(): Check[] {
+  return [...registeredChecks.values()]
+}
+
+/** Motivo por el que un check no se ejecuta en este escaneo, o null si se ejecuta */
+export function resolveCheckSkipReason(
+  check: Check,
+  config: ChecksConfig | undefined,
+  schema: GraphQLSchema | null,
+  userContextCount: number,
+  replaying = false
+): SkipReason | null {
+  const matches = (selectors?: string[]) =>
+    selectors?.some((s) => s === check.id || s === check.category)
+  if (config?.enable?.length && !matches(config.enable)) return 'disabled'
+  if (matches(config?.disable)) return 'disabled'
+  if (check.requiresSchema && !schema) return 'missing-schema'
+  if (userContextCount < (check.minUserContexts ?? 0)) {
+    return 'missing-contexts'
+  }
+  if (replaying && check.transport === 'websocket') return 'har-replay'
+  return null
+}
@@ -0,0 +1,280 @@
+import { GraphQLSchema, print } from 'graphql'
+import type {
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { createFinding, getErrorMessage } from './utils'
+import { buildRootFieldOperation } from './graphUtils'
+import { ScanSession, Check, CheckContext } from './types'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+const PROBE_QUERY = '{ __typename }'
+// Solo resuelve el nombre del tipo Mutation: no ejecuta ningún resolver
+const PROBE_MUTATION = 'mutation { __typename }'
+const MULTIPART_BOUNDARY = '----GraphQLSentinelCsrfProbe'
+
+type TransportVariant =
+  | 'get-query'
+  | 'get-mutation'
+  | 'form-urlencoded'
+  | 'text-plain'
+  | 'multipart-form-data'
+
+interface TransportRequest {
+  method: 'GET' | 'POST'
+  contentType?: string
+  params?: Record<string, string>
+  body?: string
+}
+
+interface VariantResult {
+  variant: TransportVariant
+  description: string
+  operation: string
+  status: number
+  accepted: boolean
+}
+
+const VARIANT_DETAILS: Record<
+  TransportVariant,
+  { description: string; severity: VulnerabilityFinding['severity'] }
+> = {
+  'get-query': {
+    description: 'Queries por GET',
+    severity: 'Low',
+  },
+  'get-mutation': {
+    description: 'Mutations por GET',
+    severity: 'High',
+  },
+  'form-urlencoded': {
+    description: 'POST application/x-www-form-urlencoded',
+    severity: 'Medium',
+  },
+  'text-plain': {
+    description: 'POST text/plain',
+    severity: 'Medium',
+  },
+  'multipart-form-data': {
+    description: 'POST multipart/form-data',
+    severity: 'Medium',
+  },
+}
+const SEVERITY_ORDER: VulnerabilityFinding['severity'][] = [
+  'Info',
+  'Low',
+  'Medium',
+  'High',
+  'Critical',
+]
+
+export const csrfCheck: Check = {
+  id: 'csrf',
+  category: 'configuration',
+  description: 'Transportes sin preflight CORS (GET, formularios, text/plain)',
+  run: runCsrfChecks,
+}
+
+/**
+ * Prueba transportes que un navegador puede enviar sin preflight CORS (GET y
+ * POST con content types "simples") usando las credenciales del usuario.
+ */
+export async function runCsrfChecks(context: CheckContext): Promise<void> {
+  const { target, headers, findings, schema, session } = context
+  if (target.csrfConfig?.enabled === false) {
+    console.log('[CsrfScanner] Chequeo CSRF deshabilitado.')
+    return
+  }
+  console.log('[CsrfScanner] Probando transportes alternativos a JSON...')
+
+  const probeBody = JSON.stringify({ query: PROBE_QUERY })
+  const variants: {
+    variant: TransportVariant
+    operation: string
+    request: TransportRequest
+    fieldName: string
+  }[] = [
+    {
+      variant: 'get-query',
+      operation: PROBE_QUERY,
+      fieldName: '__typename',
+      request: { method: 'GET', params: { query: PROBE_QUERY } },
+    },
+    {
+      variant: 'form-urlencoded',
+      operation: PROBE_QUERY,
+      fieldName: '__typename',
+      request: {
+        method: 'POST',
+        contentType: 'application/x-www-form-urlencoded',
+        body: new URLSearchParams({ query: PROBE_QUERY }).toString(),
+      },
+    },
+    {
+      variant: 'text-plain',
+      operation: PROBE_QUERY,
+      fieldName: '__typename',
+      request: { method: 'POST', contentType: 'text/plain', body: probeBody },
+    },
+    {
+      // Formato de GraphQL multipart request (subida de ficheros)
+      variant: 'multipart-form-data',
+      operation: PROBE_QUERY,
+      fieldName: '__typename',
+      request: {
+        method: 'POST',
+        contentType: `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`,
+        body: buildMultipartBody({ operations: probeBody, map: '{}' }),
+      },
+    },
+  ]
+
+  const mutation = pickGetMutation(target, schema, session)
+  if (mutation) {
+    variants.push({
+      variant: 'get-mutation',
+      operation: mutation.query,
+      fieldName: mutation.fieldName,
+      request: {
+        method: 'GET',
+        params: {
+          query: mutation.query,
+          variables: JSON.stringify(mutation.variables),
+        },
+      },
+    })
+  }
+
+  const results: VariantResult[] = []
+  for (const { variant, operation, request, fieldName } of variants) {
+    try {
+      const response = await session.http.request<{
+        data?: Record<string, unknown>
+      }>({
+        url: target.url,
+        method: request.method,
+        params: request.params,
+        data: request.body,
+        headers: request.contentType
+          ? { ...headers, 'Content-Type': request.contentType }
+          : omitContentType(headers),
+        validateStatus: () => true, // Un rechazo 4xx es el resultado esperado
+      })
+      const data = response.data?.data
+      // Si el campo aparece en `data` la operación llegó a ejecutarse
+      const accepted =
+        response.status < 400 &&
+        typeof data === 'object' &&
+        data !== null &&
+        fieldName in data
+      results.push({
+        variant,
+        description: VARIANT_DETAILS[variant].description,
+        operation,
+        status: response.status,
+        accepted,
+      })
+      console.log(
+        `[CsrfScanner] ${VARIANT_DETAILS[variant].description}: ${accepted ? 'ACEPTADO' : 'rechazado'} (HTTP ${response.status})`
+      )
+    } catch (error) {
+      rethrowIfBudgetExceeded(error)
+      console.warn(
+        `[CsrfScanner] Error probando ${VARIANT_DETAILS[variant].description}: ${getErrorMessage(error)}`
+      )
+    }
+  }
+
+  const accepted = results.filter((r) => r.accepted)
+  if (accepted.length === 0) {
+    console.log('[CsrfScanner] Chequeo CSRF OK (solo se acepta JSON por POST).')
+    return
+  }
+  const severity = accepted
+    .map((r) => VARIANT_DETAILS[r.variant].severity)
+    .reduce((max, s) =>
+      SEVERITY_ORDER.indexOf(s) > SEVERITY_ORDER.indexOf(max) ? s : max
+    )
+  findings.push(
+    createFinding(
+      severity,
+      'Posible CSRF: Transportes sin Preflight Aceptados',
+      `El servidor acepta peticiones que un navegador envía sin preflight CORS (${accepted.map((r) => r.description).join(', ')}). Si la API se autentica con cookies, una web maliciosa puede ejecutar operaciones en nombre del usuario. Acepta solo POST con Content-Type application/json o exige una cabecera personalizada (ej: CSRF prevention de Apollo).`,
+      {
+        acceptedVariants: accepted,
+        rejectedVariants: results.filter((r) => !r.accepted),
+      },
+      // Solo es explotable si la API se autentica con cookies
+      { ...FINDING_CLASSES.csrf, confidence: 'Medium' }
+    )
+  )
+  console.log('[CsrfScanner] Chequeo CSRF completado.')
+}
+
+/**
+ * Mutation a enviar por GET: `mutation { __typename }`, sin efectos, salvo que
+ * el usuario indique una real en `csrfConfig.mutationFieldName`.
+ */
+function pickGetMutation(
+  target: ScanTarget,
+  schema: GraphQLSchema | null,
+  session: ScanSession
+): {
+  fieldName: string
+  query: string
+  variables: Record<string, unknown>
+} | null {
+  const { includeMutations, mutationFieldName } = target.csrfConfig ?? {}
+  if (includeMutations === false) return null
+  if (schema && !schema.getMutationType()) return null
+  if (!mutationFieldName) {
+    return { fieldName: '__typename', query: PROBE_MUTATION, variables: {} }
+  }
+
+  if (
+    !schema ||
+    !session.policy.allows('csrf', 'mutation', mutationFieldName)
+  ) {
+    console.log(
+      `[CsrfScanner] No se puede ejecutar la mutation '${mutationFieldName}': se omite la prueba de mutations por GET.`
+    )
+    return null
+  }
+  const built = buildRootFieldOperation(
+    schema,
+    'mutation',
+    mutationFieldName,
+    target.argumentValues
+  )
+  if (!built) {
+    console.log(
+      `[CsrfScanner] No se pudieron sintetizar los argumentos de '${mutationFieldName}': se omite la prueba de mutations por GET.`
+    )
+    return null
+  }
+  return {
+    fieldName: mutationFieldName,
+    query: print(built.document),
+    variables: built.variables,
+  }
+}
+
+function buildMultipartBody(fields: Record<string, string>): string {
+  return (
+    Object.entries(fields)
+      .map(
+        ([name, value]) =>
+          `--${MULTIPART_BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+      )
+      .join('') + `--${MULTIPART_BOUNDARY}--\r\n`
+  )
+}
+
+function omitContentType(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => name !== 'Content-Type')
+  )
+}
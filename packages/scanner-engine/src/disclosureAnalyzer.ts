@@ -0,0 +1,427 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios'
+import type { VulnerabilityFinding } from '@graphql-sentinel/shared-types'
+import { createFinding } from './utils'
+import { TracedRequestConfig } from './harTraffic'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+const EXCERPT_CONTEXT_CHARS = 80
+const QUERY_EXCERPT_LENGTH = 200
+const MAX_INSPECTED_BODY_LENGTH = 200000 // Evita analizar respuestas enormes
+const MAX_REQUEST_IDS = 20 // Peticiones del HAR referenciadas por cada hallazgo
+const MIN_ECHOED_INPUT_LENGTH = 4 // Textos más cortos aparecen en cualquier error
+// Claves de `extensions` que solo aparecen con modos debug/tracing activos
+const DEBUG_EXTENSION_KEYS = [
+  'tracing',
+  'debug',
+  'debugInfo',
+  'internal',
+  'queryPlan',
+  'ftv1',
+]
+
+type LeakKind =
+  | 'stack-trace'
+  | 'exception-block'
+  | 'file-path'
+  | 'sql-fragment'
+  | 'debug-flag'
+  | 'internal-host'
+
+interface Leak {
+  kind: LeakKind
+  value: string // Identidad del leak para deduplicar
+  excerpt: string
+}
+
+const LEAK_DETAILS: Record<
+  LeakKind,
+  {
+    title: string
+    severity: VulnerabilityFinding['severity']
+    recommendation: string
+  }
+> = {
+  'stack-trace': {
+    title: 'Stack Trace Expuesto en Errores',
+    severity: 'Medium',
+    recommendation:
+      'Las respuestas de error incluyen stack traces. Desactiva el modo debug y devuelve mensajes genéricos en producción.',
+  },
+  'exception-block': {
+    title: 'Bloque extensions.exception Expuesto',
+    severity: 'Medium',
+    recommendation:
+      'Los errores GraphQL incluyen `extensions.exception` con detalles internos. Configura el servidor para omitirlo en producción (ej: includeStacktraceInErrorResponses: false).',
+  },
+  'file-path': {
+    title: 'Rutas de Archivos Internas Expuestas',
+    severity: 'Low',
+    recommendation:
+      'Los errores revelan rutas del sistema de archivos del servidor. Enmascara los errores internos antes de devolverlos.',
+  },
+  'sql-fragment': {
+    title: 'Fragmento SQL Expuesto en Errores',
+    severity: 'Medium',
+    recommendation:
+      'Los errores incluyen sentencias SQL que revelan el modelo de datos. No propagues errores de la base de datos al cliente.',
+  },
+  'debug-flag': {
+    title: 'Modo Debug/Tracing del Framework Habilitado',
+    severity: 'Low',
+    recommendation:
+      'La respuesta incluye extensiones de debug o tracing. Desactívalas en producción.',
+  },
+  'internal-host': {
+    title: 'Hostname o IP Interna Expuesta',
+    severity: 'Low',
+    recommendation:
+      'Los errores revelan hosts o IPs de la red interna. Enmascara los errores de conexión a servicios internos.',
+  },
+}
+
+const STACK_TRACE_PATTERNS = [
+  /\bat (?:async )?[\w$.<>[\] ]*\(?(?:\/|[A-Z]:\\|node:|file:)[^\s)]+:\d+:\d+\)?/, // Node.js
+  /Traceback \(most recent call last\)/, // Python
+  /\bat [\w$.]+\([\w]+\.java:\d+\)/, // Java
+  /\.rb:\d+:in `/, // Ruby
+  /#\d+ \/[^\s]+\.php\(\d+\)/, // PHP
+  /goroutine \d+ \[/, // Go
+]
+const FILE_PATH_PATTERN =
+  /(?:\/(?:home|usr|var|opt|app|srv|src|root|build|workspace)\/[\w.\-/@]+\.(?:js|mjs|cjs|ts|py|rb|php|java|go|cs|kt))|(?:[A-Z]:\\[\w\\.\- ]+\.(?:js|ts|py|cs|java|php))/g
+const SQL_FRAGMENT_PATTERN =
+  /\b(?:SELECT\s+[\w*`"., ]+\s+FROM\s+[\w`".]+|INSERT\s+INTO\s+[\w`".]+|UPDATE\s+[\w`".]+\s+SET\s+[\w`"]+|DELETE\s+FROM\s+[\w`".]+)/gi
+const INTERNAL_HOST_PATTERN =
+  /\b(?:10\.\d{1,3}\.\d{1,3}\.\d{1,3}|192\.168\.\d{1,3}\.\d{1,3}|172\.(?:1[6-9]|2\d|3[01])\.\d{1,3}\.\d{1,3}|(?:localhost|127\.0\.0\.1):\d{2,5}|[\w-]+(?:\.[\w-]+)*\.(?:internal|local|lan|corp|intra|svc\.cluster\.local))\b/g
+const SECRET_PATTERNS = [
+  /eyJ[\w-]+\.[\w-]+\.[\w-]+/g, // JWT
+  /(Bearer\s+)[\w\-.~+/]+=*/gi,
+  /((?:password|passwd|pwd|secret|token|api[_-]?key)["']?\s*[:=]\s*["']?)[^"'\s,}]+/gi,
+  /\b[a-f0-9]{32,}\b/gi, // Hashes/claves hexadecimales
+]
+
+export interface DisclosureAnalyzer {
+  /**
+   * Analiza el cuerpo de una respuesta recibida para la operación indicada.
+   * Los textos enviados en la petición (`requestInputs`) no cuentan como fuga
+   * aunque la respuesta los repita (ej: la URL de un payload SSRF).
+   */
+  analyze(
+    body: unknown,
+    operation: string,
+    requestId?: string,
+    requestInputs?: string[]
+  ): void
+}
+
+/**
+ * Crea el analizador de fugas de información: cada leak distinto genera un
+ * único hallazgo y las apariciones posteriores solo incrementan su contador.
+ */
+export function createDisclosureAnalyzer(
+  findings: VulnerabilityFinding[]
+): DisclosureAnalyzer {
+  const reported = new Map<string, VulnerabilityFinding>()
+
+  return {
+    analyze(body, operation, requestId, requestInputs = []) {
+      for (const leak of detectLeaks(body, requestInputs)) {
+        const key = `${leak.kind}:${leak.value}`
+        const existing = reported.get(key)
+        if (existing?.evidence) {
+          existing.evidence.occurrences =
+            (existing.evidence.occurrences as number) + 1
+          if (
+            requestId &&
+            existing.requestIds &&
+            existing.requestIds.length < MAX_REQUEST_IDS
+          ) {
+            existing.requestIds.push(requestId)
+          }
+          continue
+        }
+        const details = LEAK_DETAILS[leak.kind]
+        const finding = createFinding(
+          details.severity,
+          details.title,
+          details.recommendation,
+          {
+            leakType: leak.kind,
+            leak: redactSecrets(leak.value),
+            excerpt: redactSecrets(leak.excerpt),
+            operation,
+            occurrences: 1,
+          },
+          {
+            ...FINDING_CLASSES.disclosure,
+            confidence: 'High',
+            location: { detail: `${leak.kind}:${redactSecrets(leak.value)}` },
+          }
+        )
+        finding.check = 'disclosure'
+        if (requestId) finding.requestIds = [requestId]
+        reported.set(key, finding)
+        findings.push(finding)
+        console.log(
+          `[DisclosureAnalyzer] ${details.title} en respuesta a ${operation}`
+        )
+      }
+    },
+  }
+}
+
+/** Analiza todas las respuestas (también las de error HTTP) del cliente del escaneo */
+export function attachDisclosureInterceptor(
+  http: AxiosInstance,
+  analyzer: DisclosureAnalyzer
+): void {
+  // La respuesta a un reintento tras un 401 recorre dos veces la cadena de
+  // interceptores (la del reintento y la de la petición original)
+  const inspected = new WeakSet<AxiosResponse>()
+  const inspect = (response: AxiosResponse) => {
+    if (inspected.has(response)) return
+    inspected.add(response)
+    const payload = parseRequestPayload(response.config)
+    analyzer.analyze(
+      response.data,
+      describeRequestOperation(payload),
+      (response.config as TracedRequestConfig).sentinelRequestId,
+      collectRequestInputs(payload, response.config.data)
+    )
+  }
+  http.interceptors.response.use(
+    (response) => {
+      inspect(response)
+      return response
+    },
+    (error) => {
+      if (error instanceof AxiosError && error.response) inspect(error.response)
+      return Promise.reject(error)
+    }
+  )
+}
+
+/** Busca leaks en los errores/extensiones de una respuesta GraphQL o en texto plano */
+function detectLeaks(body: unknown, requestInputs: string[]): Leak[] {
+  const leaks: Leak[] = []
+  let texts: string[]
+  if (typeof body === 'string') {
+    texts = [body]
+  } else if (body && typeof body === 'object') {
+    // Los datos devueltos no se analizan: solo errores y extensiones
+    const results = Array.isArray(body) ? body : [body]
+    texts = []
+    for (const result of results) {
+      if (!result || typeof result !== 'object') continue
+      const { errors, extensions } = result as {
+        errors?: { extensions?: Record<string, unknown> }[]
+        extensions?: Record<string, unknown>
+      }
+      if (Array.isArray(errors)) {
+        texts.push(JSON.stringify(errors))
+        for (const error of errors) {
+          if (error?.extensions?.exception) {
+            const exception = JSON.stringify(error.extensions.exception)
+            leaks.push({
+              kind: 'exception-block',
+              value: Object.keys(
+                error.extensions.exception as Record<string, unknown>
+              )
+                .sort()
+                .join(','),
+              excerpt: exception.slice(0, EXCERPT_CONTEXT_CHARS * 2),
+            })
+          }
+        }
+      }
+      if (extensions && typeof extensions === 'object') {
+        texts.push(JSON.stringify(extensions))
+        for (const key of DEBUG_EXTENSION_KEYS.filter((k) => k in extensions)) {
+          leaks.push({
+            kind: 'debug-flag',
+            value: `extensions.${key}`,
+            excerpt: JSON.stringify(extensions[key]).slice(
+              0,
+              EXCERPT_CONTEXT_CHARS * 2
+            ),
+          })
+        }
+      }
+    }
+  } else {
+    return leaks
+  }
+
+  for (const raw of texts) {
+    // JSON.stringify escapa saltos de línea y barras invertidas
+    const text = stripRequestInputs(
+      raw
+        .slice(0, MAX_INSPECTED_BODY_LENGTH)
+        .replace(/\\n/g, '\n')
+        .replace(/\\\\/g, '\\'),
+      requestInputs
+    )
+    let hasStackTrace = false
+    for (const pattern of STACK_TRACE_PATTERNS) {
+      const match = pattern.exec(text)
+      if (!match) continue
+      hasStackTrace = true
+      leaks.push({
+        kind: 'stack-trace',
+        value: match[0].trim(),
+        excerpt: excerptAround(text, match.index, match[0].length),
+      })
+      break
+    }
+    // Las rutas dentro de un stack trace ya quedan cubiertas por ese hallazgo
+    if (!hasStackTrace) {
+      leaks.push(...matchAll(text, FILE_PATH_PATTERN, 'file-path'))
+    }
+    leaks.push(...matchAll(text, SQL_FRAGMENT_PATTERN, 'sql-fragment'))
+    leaks.push(...matchAll(text, INTERNAL_HOST_PATTERN, 'internal-host'))
+  }
+  return leaks
+}
+
+function matchAll(text: string, pattern: RegExp, kind: LeakKind): Leak[] {
+  return Array.from(text.matchAll(pattern), (match) => ({
+    kind,
+    value: match[0],
+    excerpt: excerptAround(text, match.index ?? 0, match[0].length),
+  }))
+}
+
+function excerptAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_CONTEXT_CHARS)
+  const end = Math.min(text.length, index + length + EXCERPT_CONTEXT_CHARS)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
+
+/** Sustituye tokens, contraseñas y claves por [REDACTED] */
+function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (redacted, pattern) =>
+      redacted.replace(pattern, (match, prefix?: string) =>
+        typeof prefix === 'string' ? `${prefix}[REDACTED]` : '[REDACTED]'
+      ),
+    text
+  )
+}
+
+/** Elimina del texto lo que la propia petición envió (el eco no es una fuga) */
+function stripRequestInputs(text: string, requestInputs: string[]): string {
+  return requestInputs.reduce(
+    (stripped, input) => stripped.split(input).join(''),
+    text
+  )
+}
+
+/**
+ * Operación GraphQL enviada en la petición, sea cual sea el transporte: JSON
+ * (axios lo guarda serializado), parámetros GET, formulario o multipart.
+ */
+function parseRequestPayload(config: InternalAxiosRequestConfig): unknown {
+  const { data, params } = config
+  if (params && typeof params === 'object') {
+    return parseOperationFields(params as Record<string, unknown>)
+  }
+  if (typeof data !== 'string') return data
+  const json = parseJson(data)
+  if (json !== undefined) return json
+  const contentType = String(
+    AxiosHeaders.from(config.headers as AxiosHeaders).getContentType() ?? ''
+  )
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return parseOperationFields(Object.fromEntries(new URLSearchParams(data)))
+  }
+  if (contentType.includes('multipart/form-data')) {
+    return parseOperationFields(parseMultipartFields(data))
+  }
+  return undefined
+}
+
+/** Campos de un formulario o de la query string: `query`/`variables` u `operations` (multipart) */
+function parseOperationFields(fields: Record<string, unknown>): unknown {
+  if (typeof fields.operations === 'string') {
+    return parseJson(fields.operations)
+  }
+  return {
+    query: fields.query,
+    variables:
+      typeof fields.variables === 'string'
+        ? parseJson(fields.variables)
+        : fields.variables,
+  }
+}
+
+function parseMultipartFields(body: string): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(
+      body.matchAll(
+        /Content-Disposition: form-data; name="([^"]+)"[^\r\n]*\r?\n(?:[^\r\n]+\r?\n)*\r?\n([\s\S]*?)\r?\n--/gi
+      ),
+      (match) => [match[1], match[2]]
+    )
+  )
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Textos enviados en la petición: la query, sus literales de cadena y los
+ * valores de las variables, del más largo al más corto para que un texto no
+ * deje restos de otro que lo contiene. Si el cuerpo no se pudo interpretar se
+ * usa tal cual.
+ */
+function collectRequestInputs(payload: unknown, rawBody: unknown): string[] {
+  const inputs = new Set<string>()
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') {
+      inputs.add(value)
+      inputs.add(JSON.stringify(value).slice(1, -1)) // Tal como aparece en JSON
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(collect)
+    }
+  }
+  for (const operation of Array.isArray(payload) ? payload : [payload]) {
+    const { query, variables } =
+      (operation as { query?: unknown; variables?: unknown } | undefined) ?? {}
+    if (typeof query === 'string') {
+      collect(query)
+      for (const literal of query.matchAll(/"((?:[^"\\]|\\.)*)"/g)) {
+        collect(literal[1])
+      }
+    }
+    collect(variables)
+  }
+  if (payload === undefined && typeof rawBody === 'string') collect(rawBody)
+  return [...inputs]
+    .filter((input) => input.length >= MIN_ECHOED_INPUT_LENGTH)
+    .sort((a, b) => b.length - a.length)
+}
+
+/** Describe la operación de la petición (ej: 'query search') a partir de su cuerpo */
+function describeRequestOperation(payload: unknown): string {
+  if (Array.isArray(payload)) payload = payload[0]
+  const query = (payload as { query?: unknown } | undefined)?.query
+  if (typeof query !== 'string') return 'petición desconocida'
+  const match = query.match(
+    /^\s*(query|mutation|subscription)?[^{]*\{\s*(?:\w+\s*:\s*)?(\w+)/
+  )
+  const operation = match
+    ? `${match[1] ?? 'query'} ${match[2]}`
+    : 'petición desconocida'
+  return `${operation} (${query.slice(0, QUERY_EXCERPT_LENGTH)}${query.length > QUERY_EXCERPT_LENGTH ? '…' : ''})`
+}
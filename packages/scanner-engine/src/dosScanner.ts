@@ -1,49 +1,95 @@
-import axios, { AxiosError } from 'axios'
-import { GraphQLSchema, GraphQLError } from 'graphql'
+import { AxiosError, AxiosInstance } from 'axios'
+import { GraphQLSchema, GraphQLError, print } from 'graphql'
 import type {
+  ArgumentValueOverrides,
   ScanTarget,
   VulnerabilityFinding,
 } from '@graphql-sentinel/shared-types'
-import { createFinding, getErrorMessage, delay } from './utils'
+import { createFinding, getErrorMessage, buildReproduction } from './utils'
 import {
-  generateDeepQuery,
+  findRecursivePath,
+  buildDepthOperation,
+  describeRecursivePath,
+  expandRecursivePath,
+  applyListSizeArguments,
+  buildPathDocument,
+  synthesizeFieldArguments,
+  calculateQueryCost,
   findListFields,
+  findPaginatedFields,
   buildGraphQLListQuery,
 } from './graphUtils'
+import {
+  PaginatedField,
+  RecursivePath,
+  RecursivePathStep,
+  ScanSession,
+  Check,
+  CheckContext,
+} from './types'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
 
-const DEFAULT_DEPTH_LIMIT = 7
+const DEFAULT_ACCEPTABLE_DEPTH = 10
+const DEFAULT_MAX_DEPTH_PROBE = 64
 const MAX_LIST_ITEMS_THRESHOLD = 100
-const DOS_REQUEST_TIMEOUT = 15000 // Timeout para pruebas DoS
-const DOS_LIST_REQUEST_TIMEOUT = 20000 // Timeout más largo para listas
-const DOS_INTER_REQUEST_DELAY = 50 // Pausa entre pruebas
+const DEFAULT_ACCEPTABLE_COST = 1000
+const DEFAULT_MAX_PROBE_COST = 100000
+const COST_PROBE_DEPTHS = [2, 3, 4, 6]
+const COST_PROBE_LIST_SIZES = [1, 10, 50, 100, 500]
+const OVERSIZED_PAGE_SIZE = 100000
+const NEGATIVE_PAGE_SIZE = -1
+const OVERSIZED_OFFSET = 100000000
+const DUPLICATED_FIELDS_COUNT = 5000
+const REPEATED_DIRECTIVES_COUNT = 1000
+const TOKEN_FLOOD_COUNT = 50000
+// Palabras clave que indican que el servidor aplicó un límite de recursos
+const DOS_LIMIT_KEYWORDS = [
+  'limit',
+  'complexity',
+  'depth',
+  'tokens',
+  'too many',
+  'exceed',
+]
+const COST_LIMIT_KEYWORDS = ['complexity', 'cost', 'budget']
+
+interface CostProbeResult {
+  estimatedCost: number
+  latencyMs: number
+  outcome: 'accepted' | 'cost-rejected' | 'rejected' | 'timeout'
+}
+
+interface ParserDosProbe {
+  checkType: string
+  description: string
+  severity: VulnerabilityFinding['severity']
+  query: string
+  // Errores que indican que el servidor rechazó el vector correctamente
+  safeErrorPattern?: RegExp
+}
+
+export const dosCheck: Check = {
+  id: 'dos',
+  category: 'availability',
+  description: 'Profundidad, coste, alias y directivas sin límite (DoS)',
+  run: runDosChecks,
+}
 
 /** Ejecuta los chequeos básicos de DoS */
-export async function runDosChecks(
-  target: ScanTarget,
-  headers: Record<string, string>,
-  findings: VulnerabilityFinding[],
-  schema: GraphQLSchema | null
-): Promise<void> {
+export async function runDosChecks(context: CheckContext): Promise<void> {
+  const { target, headers, findings, schema, session } = context
   // --- Chequeo DoS - Profundidad ---
-  console.log('[DosScanner] Ejecutando chequeo de profundidad de query...')
-  const deepQuery = generateDeepQuery(DEFAULT_DEPTH_LIMIT, schema)
-  try {
-    await axios.post(
-      target.url,
-      { query: deepQuery },
-      { headers, timeout: DOS_REQUEST_TIMEOUT }
-    )
-    findings.push(
-      createFinding(
-        'Medium',
-        'Potencial DoS por Profundidad',
-        `Query con profundidad ${DEFAULT_DEPTH_LIMIT} ejecutada con éxito.`
-      )
-    )
-  } catch (error) {
-    handlePotentialDosError(error, 'profundidad', findings)
+  await runDepthLimitCheck(target, headers, findings, schema, session)
+
+  // --- Chequeo DoS - Complejidad/Coste ---
+  await runComplexityCheck(target, headers, findings, schema, session)
+
+  // --- Chequeos DoS - Parser/Validador ---
+  console.log('[DosScanner] Ejecutando chequeos de parser/validador...')
+  for (const probe of buildParserDosProbes()) {
+    await runParserDosProbe(target, headers, findings, probe, session.http)
   }
-  await delay(DOS_INTER_REQUEST_DELAY) // Pausa
 
   // --- Chequeo DoS - Falta de Paginación ---
   console.log('[DosScanner] Ejecutando chequeo de falta de paginación...')
@@ -52,7 +98,13 @@ export async function runDosChecks(
     `[DosScanner] Campos de lista encontrados/supuestos: ${listFields.join(', ')}`
   )
   for (const fieldName of listFields) {
-    const listQuery = buildGraphQLListQuery(fieldName, schema)
+    if (!session.policy.allows('dos', 'query', fieldName)) continue
+    const listQuery = buildGraphQLListQuery(
+      fieldName,
+      schema,
+      {},
+      target.argumentValues
+    )
     if (!listQuery) {
       console.warn(
         `[DosScanner] No se pudo construir query para el campo de lista: ${fieldName}`
@@ -60,15 +112,15 @@ export async function runDosChecks(
       continue
     }
     console.log(`[DosScanner] Probando campo de lista: ${fieldName}`)
+    const body = {
+      query: print(listQuery.document),
+      variables: listQuery.variables,
+    }
     try {
-      const response = await axios.post<{
+      const response = await session.http.post<{
         data?: Record<string, any[]>
         errors?: readonly GraphQLError[]
-      }>(
-        target.url,
-        { query: listQuery },
-        { headers, timeout: DOS_LIST_REQUEST_TIMEOUT }
-      )
+      }>(target.url, body, { headers })
       const results = response.data?.data?.[fieldName]
       if (
         response.data?.errors &&
@@ -89,7 +141,14 @@ export async function runDosChecks(
           createFinding(
             'High',
             'Potencial DoS por Falta de Paginación',
-            `Query '${fieldName}' devolvió ${results.length} resultados sin paginación.`
+            `Query '${fieldName}' devolvió ${results.length} resultados sin paginación.`,
+            undefined,
+            {
+              ...FINDING_CLASSES.unboundedAllocation,
+              confidence: 'Medium', // Puede ser una lista acotada pero grande
+              location: { operation: 'query', field: fieldName },
+              reproduction: buildReproduction(target.url, headers, body),
+            }
           )
         )
       } else if (Array.isArray(results)) {
@@ -105,30 +164,742 @@ export async function runDosChecks(
     } catch (error) {
       handlePotentialDosError(error, `lista ${fieldName}`, findings)
     }
-    await delay(DOS_INTER_REQUEST_DELAY) // Pausa
   }
+
+  // --- Chequeo DoS - Abuso de Paginación ---
+  await runPaginationAbuseCheck(target, headers, findings, schema, session)
   console.log('[DosScanner] Chequeos DoS completados.')
 }
 
+/**
+ * Envía valores de paginación desmesurados y negativos a los campos con
+ * first/limit/offset para comprobar si el servidor los limita o rechaza.
+ */
+async function runPaginationAbuseCheck(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  schema: GraphQLSchema | null,
+  session: ScanSession
+): Promise<void> {
+  console.log('[DosScanner] Ejecutando chequeo de abuso de paginación...')
+  const paginatedFields = findPaginatedFields(schema, target.argumentValues)
+  if (paginatedFields.length === 0) {
+    console.log(
+      '[DosScanner] Saltando abuso de paginación (no hay campos paginados conocidos).'
+    )
+    return
+  }
+
+  for (const paginated of paginatedFields) {
+    const { fieldName, sizeArgName, offsetArgName } = paginated
+    if (!session.policy.allows('dos', 'query', fieldName)) continue
+    if (sizeArgName) {
+      const oversized = await sendPaginatedQuery(
+        session.http,
+        target,
+        headers,
+        schema,
+        paginated,
+        {
+          [sizeArgName]: OVERSIZED_PAGE_SIZE,
+        }
+      )
+      if (oversized.error) {
+        handlePotentialDosError(
+          oversized.error,
+          `paginación ${fieldName}(${sizeArgName}: ${OVERSIZED_PAGE_SIZE})`,
+          findings
+        )
+      } else if (
+        oversized.returnedPageSize !== null &&
+        oversized.returnedPageSize > MAX_LIST_ITEMS_THRESHOLD
+      ) {
+        findings.push(
+          createFinding(
+            'High',
+            'Abuso de Paginación: Tamaño de Página Sin Límite',
+            `Query '${fieldName}(${sizeArgName}: ${OVERSIZED_PAGE_SIZE})' devolvió ${oversized.returnedPageSize} resultados (umbral ${MAX_LIST_ITEMS_THRESHOLD}). Valida un máximo para '${sizeArgName}' en el servidor.`,
+            {
+              fieldName,
+              argument: sizeArgName,
+              requestedPageSize: OVERSIZED_PAGE_SIZE,
+              returnedPageSize: oversized.returnedPageSize,
+              isConnection: paginated.isConnection,
+              latencyMs: oversized.latencyMs,
+            },
+            {
+              ...FINDING_CLASSES.unboundedAllocation,
+              confidence: 'High',
+              location: {
+                operation: 'query',
+                field: fieldName,
+                argument: sizeArgName,
+              },
+              reproduction: buildReproduction(
+                target.url,
+                headers,
+                oversized.body
+              ),
+            }
+          )
+        )
+      } else if (oversized.returnedPageSize === null) {
+        console.log(
+          `[DosScanner] Paginación OK para ${fieldName} (${sizeArgName}: ${OVERSIZED_PAGE_SIZE} rechazado).`
+        )
+      } else {
+        console.log(
+          `[DosScanner] Paginación OK para ${fieldName} (limitada a ${oversized.returnedPageSize} resultados).`
+        )
+      }
+
+      const negative = await sendPaginatedQuery(
+        session.http,
+        target,
+        headers,
+        schema,
+        paginated,
+        {
+          [sizeArgName]: NEGATIVE_PAGE_SIZE,
+        }
+      )
+      if (negative.returnedPageSize !== null && !negative.hasErrors) {
+        findings.push(
+          createFinding(
+            'Low',
+            'Valor de Paginación Negativo Aceptado',
+            `Query '${fieldName}(${sizeArgName}: ${NEGATIVE_PAGE_SIZE})' fue aceptada y devolvió ${negative.returnedPageSize} resultados. Rechaza valores negativos; algunos backends los interpretan como "sin límite".`,
+            {
+              fieldName,
+              argument: sizeArgName,
+              requestedPageSize: NEGATIVE_PAGE_SIZE,
+              returnedPageSize: negative.returnedPageSize,
+              isConnection: paginated.isConnection,
+            },
+            {
+              ...FINDING_CLASSES.quantityValidation,
+              confidence: 'High',
+              location: {
+                operation: 'query',
+                field: fieldName,
+                argument: sizeArgName,
+              },
+              reproduction: buildReproduction(
+                target.url,
+                headers,
+                negative.body
+              ),
+            }
+          )
+        )
+      }
+    }
+
+    if (offsetArgName) {
+      const offset = await sendPaginatedQuery(
+        session.http,
+        target,
+        headers,
+        schema,
+        paginated,
+        {
+          [offsetArgName]: OVERSIZED_OFFSET,
+        }
+      )
+      if (offset.error) {
+        handlePotentialDosError(
+          offset.error,
+          `paginación ${fieldName}(${offsetArgName}: ${OVERSIZED_OFFSET})`,
+          findings
+        )
+      } else {
+        console.log(
+          `[DosScanner] Offset ${OVERSIZED_OFFSET} en ${fieldName} respondido en ${offset.latencyMs} ms.`
+        )
+      }
+    }
+  }
+}
+
+/** Envía una query de lista con los argumentos de paginación indicados */
+async function sendPaginatedQuery(
+  http: AxiosInstance,
+  target: ScanTarget,
+  headers: Record<string, string>,
+  schema: GraphQLSchema | null,
+  paginated: PaginatedField,
+  paginationArgs: Record<string, number>
+): Promise<{
+  returnedPageSize: number | null
+  hasErrors: boolean
+  latencyMs: number
+  body?: { query: string; variables: Record<string, unknown> } // Petición enviada
+  error?: unknown
+}> {
+  const built = buildGraphQLListQuery(
+    paginated.fieldName,
+    schema,
+    paginationArgs,
+    target.argumentValues
+  )
+  const startedAt = Date.now()
+  try {
+    if (!built) {
+      throw new Error(
+        `No se pudo construir la query para ${paginated.fieldName}`
+      )
+    }
+    const body = { query: print(built.document), variables: built.variables }
+    const response = await http.post<{
+      data?: Record<string, unknown>
+      errors?: readonly GraphQLError[]
+    }>(target.url, body, { headers })
+    return {
+      body,
+      returnedPageSize: countListItems(
+        response.data?.data?.[paginated.fieldName]
+      ),
+      hasErrors: (response.data?.errors?.length ?? 0) > 0,
+      latencyMs: Date.now() - startedAt,
+    }
+  } catch (error) {
+    return {
+      returnedPageSize: null,
+      hasErrors: true,
+      latencyMs: Date.now() - startedAt,
+      error,
+    }
+  }
+}
+
+/** Cuenta los elementos de una lista o de una conexión Relay (edges/nodes) */
+function countListItems(value: unknown): number | null {
+  if (Array.isArray(value)) return value.length
+  if (value && typeof value === 'object') {
+    const connection = value as { edges?: unknown; nodes?: unknown }
+    if (Array.isArray(connection.edges)) return connection.edges.length
+    if (Array.isArray(connection.nodes)) return connection.nodes.length
+  }
+  return null
+}
+
+/** Busca la profundidad máxima que acepta el servidor y la compara con el umbral */
+async function runDepthLimitCheck(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  schema: GraphQLSchema | null,
+  session: ScanSession
+): Promise<void> {
+  console.log('[DosScanner] Ejecutando chequeo de profundidad de query...')
+  const acceptableDepth =
+    target.dosConfig?.maxAcceptableDepth ?? DEFAULT_ACCEPTABLE_DEPTH
+  const maxDepthProbe = Math.max(
+    target.dosConfig?.maxDepthProbe ?? DEFAULT_MAX_DEPTH_PROBE,
+    acceptableDepth + 1
+  )
+  const recursivePath = schema
+    ? findRecursivePath(schema, target.argumentValues)
+    : null
+  if (!recursivePath) {
+    console.log(
+      `[DosScanner] Saltando búsqueda de profundidad (${schema ? 'el schema no tiene tipos recursivos' : 'schema no disponible'}).`
+    )
+    return
+  }
+  const rootFieldName = expandRecursivePath(recursivePath, 1)[0].fieldName
+  if (!session.policy.allows('dos', 'query', rootFieldName)) return
+  const pathDescription = describeRecursivePath(recursivePath)
+  console.log(`[DosScanner] Ruta recursiva usada: ${pathDescription}`)
+
+  // Crecimiento exponencial hasta el primer rechazo y luego búsqueda binaria
+  let maxAccepted = 0
+  let minRejected: number | null = null
+  for (
+    let depth = Math.max(recursivePath.prefix.length + 1, 2);
+    depth <= maxDepthProbe;
+    depth = Math.min(depth * 2, maxDepthProbe)
+  ) {
+    const outcome = await probeDepth(
+      session.http,
+      target,
+      headers,
+      findings,
+      recursivePath,
+      depth
+    )
+    if (outcome === 'timeout') return
+    if (outcome === 'rejected') {
+      minRejected = depth
+      break
+    }
+    maxAccepted = depth
+    if (depth === maxDepthProbe) break
+  }
+  while (minRejected !== null && minRejected - maxAccepted > 1) {
+    const depth = Math.floor((maxAccepted + minRejected) / 2)
+    const outcome = await probeDepth(
+      session.http,
+      target,
+      headers,
+      findings,
+      recursivePath,
+      depth
+    )
+    if (outcome === 'timeout') return
+    if (outcome === 'rejected') minRejected = depth
+    else maxAccepted = depth
+  }
+
+  const evidence = {
+    measuredDepth: maxAccepted,
+    acceptableDepth,
+    limitDetected: minRejected !== null,
+    maxDepthProbed: maxDepthProbe,
+    recursivePath: pathDescription,
+  }
+  const details = {
+    ...FINDING_CLASSES.uncontrolledRecursion,
+    confidence: 'High' as const,
+    location: { operation: 'query' as const, field: rootFieldName },
+    reproduction: buildDepthReproduction(
+      target,
+      headers,
+      recursivePath,
+      maxAccepted
+    ),
+  }
+  if (minRejected === null) {
+    findings.push(
+      createFinding(
+        'High',
+        'Sin Límite de Profundidad de Query',
+        `El servidor aceptó queries recursivas de profundidad ${maxAccepted} (máximo probado) sin aplicar límite; el umbral aceptable es ${acceptableDepth}. Configura un límite de profundidad.`,
+        evidence,
+        details
+      )
+    )
+  } else if (maxAccepted > acceptableDepth) {
+    findings.push(
+      createFinding(
+        'Medium',
+        'Límite de Profundidad de Query Excesivo',
+        `El servidor acepta queries de hasta profundidad ${maxAccepted}, por encima del umbral aceptable de ${acceptableDepth}. Reduce el límite de profundidad.`,
+        evidence,
+        details
+      )
+    )
+  } else {
+    console.log(
+      `[DosScanner] Chequeo de profundidad OK (límite medido: ${maxAccepted}, umbral: ${acceptableDepth}).`
+    )
+  }
+}
+
+/** Query recursiva de la mayor profundidad aceptada, lista para reenviar */
+function buildDepthReproduction(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  recursivePath: RecursivePath,
+  depth: number
+) {
+  const { document, variables } = buildDepthOperation(recursivePath, depth)
+  return buildReproduction(target.url, headers, {
+    query: print(document),
+    variables,
+  })
+}
+
+/** Envía una query de la profundidad indicada y clasifica el resultado */
+async function probeDepth(
+  http: AxiosInstance,
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  recursivePath: RecursivePath,
+  depth: number
+): Promise<'accepted' | 'rejected' | 'timeout'> {
+  const { document, variables } = buildDepthOperation(recursivePath, depth)
+  try {
+    const response = await http.post<{
+      data?: unknown
+      errors?: readonly GraphQLError[]
+    }>(target.url, { query: print(document), variables }, { headers })
+    // Los errores sin `path` son de documento (validación/límites): rechazo
+    const documentErrors = (response.data?.errors ?? []).filter(
+      (e) => !Array.isArray(e.path)
+    )
+    return documentErrors.length > 0 ? 'rejected' : 'accepted'
+  } catch (error) {
+    rethrowIfBudgetExceeded(error)
+    if (getErrorMessage(error).toLowerCase().includes('timeout')) {
+      handlePotentialDosError(error, `profundidad ${depth}`, findings)
+      return 'timeout'
+    }
+    console.log(
+      `[DosScanner] Query de profundidad ${depth} rechazada: ${getErrorMessage(error)}`
+    )
+    return 'rejected'
+  }
+}
+
+/**
+ * Envía queries de coste estimado creciente para averiguar si el servidor
+ * aplica un presupuesto de complejidad, registrando coste y latencia.
+ */
+async function runComplexityCheck(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  schema: GraphQLSchema | null,
+  session: ScanSession
+): Promise<void> {
+  console.log('[DosScanner] Ejecutando chequeo de complejidad de query...')
+  if (!schema) {
+    console.log(
+      '[DosScanner] Saltando chequeo de complejidad (schema no disponible).'
+    )
+    return
+  }
+  const costModel = target.dosConfig?.costModel
+  const acceptableCost =
+    target.dosConfig?.maxAcceptableCost ?? DEFAULT_ACCEPTABLE_COST
+  const maxProbeCost = target.dosConfig?.maxProbeCost ?? DEFAULT_MAX_PROBE_COST
+
+  const candidates = buildCostProbeCandidates(
+    schema,
+    costModel?.listSizeArguments,
+    target.argumentValues
+  )
+    .filter((steps) =>
+      session.policy.allows('dos', 'query', steps[0].fieldName)
+    )
+    .map((steps) => {
+      const { document, variables } = buildPathDocument(steps)
+      return {
+        fieldName: steps[0].fieldName,
+        query: print(document),
+        variables,
+        estimatedCost: calculateQueryCost(
+          schema,
+          document,
+          costModel,
+          variables
+        ),
+      }
+    })
+    .filter((c) => c.estimatedCost <= maxProbeCost)
+    .sort((a, b) => a.estimatedCost - b.estimatedCost)
+    .filter(
+      (c, index, all) =>
+        index === 0 || c.estimatedCost !== all[index - 1].estimatedCost
+    )
+  if (candidates.length === 0) {
+    console.log(
+      '[DosScanner] Saltando chequeo de complejidad (no hay rutas con listas o recursión).'
+    )
+    return
+  }
+
+  const results: CostProbeResult[] = []
+  for (const candidate of candidates) {
+    const startedAt = Date.now()
+    let outcome: CostProbeResult['outcome'] = 'accepted'
+    try {
+      const response = await session.http.post<{
+        data?: unknown
+        errors?: readonly GraphQLError[]
+      }>(
+        target.url,
+        { query: candidate.query, variables: candidate.variables },
+        { headers }
+      )
+      const documentErrors = (response.data?.errors ?? []).filter(
+        (e) => !Array.isArray(e.path)
+      )
+      if (documentErrors.some((e) => isCostLimitMessage(e.message))) {
+        outcome = 'cost-rejected'
+      } else if (documentErrors.length > 0) {
+        outcome = 'rejected'
+      }
+    } catch (error) {
+      rethrowIfBudgetExceeded(error)
+      const errorMessage = getErrorMessage(error)
+      if (errorMessage.toLowerCase().includes('timeout')) {
+        outcome = 'timeout'
+        handlePotentialDosError(error, 'complejidad', findings)
+      } else {
+        outcome = isCostLimitMessage(errorMessage)
+          ? 'cost-rejected'
+          : 'rejected'
+      }
+    }
+    results.push({
+      estimatedCost: candidate.estimatedCost,
+      latencyMs: Date.now() - startedAt,
+      outcome,
+    })
+    if (outcome === 'cost-rejected' || outcome === 'timeout') break
+  }
+
+  const accepted = results.filter((r) => r.outcome === 'accepted')
+  const maxAccepted = accepted[accepted.length - 1]
+  const costRejection = results.find((r) => r.outcome === 'cost-rejected')
+  const evidence = {
+    maxAcceptedCost: maxAccepted?.estimatedCost ?? 0,
+    maxAcceptedLatencyMs: maxAccepted?.latencyMs,
+    rejectedCost: costRejection?.estimatedCost,
+    acceptableCost,
+    budgetEnforced: !!costRejection,
+    probes: results,
+  }
+  // Los resultados van en el mismo orden que los candidatos probados
+  const reproduced =
+    candidates[results.indexOf(maxAccepted ?? costRejection)] ?? candidates[0]
+  const details = {
+    ...FINDING_CLASSES.resourceConsumption,
+    confidence: 'Medium' as const, // El coste es una estimación del modelo
+    location: { operation: 'query' as const, field: reproduced.fieldName },
+    reproduction: buildReproduction(target.url, headers, {
+      query: reproduced.query,
+      variables: reproduced.variables,
+    }),
+  }
+
+  if (!maxAccepted && !costRejection) {
+    console.log(
+      '[DosScanner] Chequeo de complejidad no concluyente (todas las queries fueron rechazadas por otros motivos).'
+    )
+  } else if (
+    costRejection &&
+    (!maxAccepted || maxAccepted.estimatedCost <= acceptableCost)
+  ) {
+    findings.push(
+      createFinding(
+        'Info',
+        'Presupuesto de Complejidad Aplicado',
+        `El servidor rechazó una query de coste estimado ${costRejection.estimatedCost} por complejidad; el mayor coste aceptado fue ${maxAccepted?.estimatedCost ?? 0} (${maxAccepted?.latencyMs ?? 0} ms).`,
+        evidence,
+        details
+      )
+    )
+  } else if (!maxAccepted || maxAccepted.estimatedCost <= acceptableCost) {
+    // Sin rechazo no hay presupuesto observado: solo que lo probado no lo superaba
+    findings.push(
+      createFinding(
+        'Info',
+        'Complejidad Probada Dentro del Umbral',
+        `El mayor coste estimado probado (${maxAccepted?.estimatedCost}) no supera el umbral aceptable (${acceptableCost}); no se observó ningún límite de complejidad.`,
+        evidence,
+        details
+      )
+    )
+  } else if (costRejection) {
+    findings.push(
+      createFinding(
+        'Medium',
+        'Presupuesto de Complejidad Excesivo',
+        `El servidor aplica un límite de complejidad, pero acepta queries de coste estimado ${maxAccepted.estimatedCost} (${maxAccepted.latencyMs} ms), por encima del umbral aceptable de ${acceptableCost}. Reduce el presupuesto de coste.`,
+        evidence,
+        details
+      )
+    )
+  } else {
+    findings.push(
+      createFinding(
+        'High',
+        'Sin Presupuesto de Complejidad de Query',
+        `El servidor aceptó queries de coste estimado hasta ${maxAccepted.estimatedCost} (${maxAccepted.latencyMs} ms) sin aplicar un límite de complejidad. Implementa un análisis de coste que rechace queries caras antes de ejecutarlas.`,
+        evidence,
+        details
+      )
+    )
+  }
+}
+
+/**
+ * Rutas candidatas para el chequeo de coste: la ruta recursiva a varias
+ * profundidades o, si no hay, los campos de lista raíz, con tamaños de página
+ * crecientes.
+ */
+function buildCostProbeCandidates(
+  schema: GraphQLSchema,
+  sizeArgumentNames?: string[],
+  overrides?: ArgumentValueOverrides
+): RecursivePathStep[][] {
+  const basePaths: RecursivePathStep[][] = []
+  const recursivePath = findRecursivePath(schema, overrides)
+  if (recursivePath) {
+    for (const depth of COST_PROBE_DEPTHS) {
+      basePaths.push(expandRecursivePath(recursivePath, depth))
+    }
+  } else {
+    const queryType = schema.getQueryType()
+    const queryFields = queryType?.getFields() ?? {}
+    for (const fieldName of findListFields(schema)) {
+      const field = queryFields[fieldName]
+      const args =
+        field &&
+        synthesizeFieldArguments(field, overrides, {
+          variablePrefix: `${queryType?.name}_${fieldName}_`,
+        })
+      if (args) basePaths.push([{ fieldName, args }])
+    }
+  }
+
+  const candidates: RecursivePathStep[][] = []
+  for (const steps of basePaths) {
+    for (const size of COST_PROBE_LIST_SIZES) {
+      candidates.push(
+        applyListSizeArguments(schema, steps, size, sizeArgumentNames)
+      )
+    }
+  }
+  return candidates
+}
+
+function isCostLimitMessage(message: string): boolean {
+  return COST_LIMIT_KEYWORDS.some((keyword) =>
+    message.toLowerCase().includes(keyword)
+  )
+}
+
+/** Construye las queries de los vectores DoS de parser/validador */
+function buildParserDosProbes(): ParserDosProbe[] {
+  const repeat = (text: string, count: number) =>
+    Array.from({ length: count }, () => text).join(' ')
+
+  return [
+    {
+      checkType: 'duplicación de campos',
+      description: 'Potencial DoS por Duplicación de Campos',
+      severity: 'Medium',
+      query: `query { ${repeat('__typename', DUPLICATED_FIELDS_COUNT)} }`,
+    },
+    {
+      checkType: 'directivas repetidas',
+      description: 'Potencial DoS por Sobrecarga de Directivas',
+      severity: 'Medium',
+      query: `query { __typename ${repeat('@include(if: true)', REPEATED_DIRECTIVES_COUNT)} }`,
+      safeErrorPattern: /can only be used once/i,
+    },
+    {
+      checkType: 'directivas desconocidas',
+      description: 'Potencial DoS por Sobrecarga de Directivas Desconocidas',
+      severity: 'Medium',
+      query: `query { __typename ${repeat('@sentinel', REPEATED_DIRECTIVES_COUNT)} }`,
+    },
+    {
+      checkType: 'fragmentos circulares',
+      description: 'Potencial DoS por Fragmentos Circulares',
+      severity: 'High',
+      query:
+        'query { ...SentinelA } ' +
+        'fragment SentinelA on Query { __typename ...SentinelB } ' +
+        'fragment SentinelB on Query { __typename ...SentinelA }',
+      safeErrorPattern: /within itself/i,
+    },
+    {
+      checkType: 'exceso de tokens',
+      description: 'Potencial DoS por Exceso de Tokens',
+      severity: 'Medium',
+      query: `query { __typename @sentinel(values: [${repeat('0', TOKEN_FLOOD_COUNT)}]) }`,
+    },
+  ]
+}
+
+/** Envía un vector DoS de parser y evalúa si el servidor aplicó algún límite */
+async function runParserDosProbe(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  probe: ParserDosProbe,
+  http: AxiosInstance
+): Promise<void> {
+  console.log(`[DosScanner] Probando ${probe.checkType}...`)
+  const startedAt = Date.now()
+  try {
+    const response = await http.post<{
+      data?: unknown
+      errors?: readonly GraphQLError[]
+    }>(target.url, { query: probe.query }, { headers })
+    const latencyMs = Date.now() - startedAt
+    const errors = response.data?.errors ?? []
+
+    if (isParserLimitError(probe, errors)) {
+      console.log(
+        `[DosScanner] Chequeo DoS (${probe.checkType}) OK (límite detectado).`
+      )
+      return
+    }
+    findings.push(
+      createFinding(
+        probe.severity,
+        probe.description,
+        `El servidor procesó la query de ${probe.checkType} (${probe.query.length} caracteres) sin aplicar ningún límite (${latencyMs} ms, ${errors.length} errores devueltos). Limita tokens, campos, directivas y fragmentos en el parser/validador.`,
+        {
+          checkType: probe.checkType,
+          queryLength: probe.query.length,
+          latencyMs,
+          errorCount: errors.length,
+        },
+        // Sin reproducción: la query ocupa decenas de KB (queda en el HAR)
+        { ...FINDING_CLASSES.resourceConsumption, confidence: 'Medium' }
+      )
+    )
+  } catch (error) {
+    // Muchos servidores rechazan el documento con un 400 y los errores en el cuerpo
+    const errors = (error as AxiosError<{ errors?: GraphQLError[] }>).response
+      ?.data?.errors
+    if (isParserLimitError(probe, errors)) {
+      console.log(
+        `[DosScanner] Chequeo DoS (${probe.checkType}) OK (límite detectado).`
+      )
+      return
+    }
+    handlePotentialDosError(error, probe.checkType, findings)
+  }
+}
+
+/** Indica si los errores muestran que el parser/validador rechazó el vector */
+function isParserLimitError(
+  probe: ParserDosProbe,
+  errors: readonly { message: string }[] | undefined
+): boolean {
+  return (
+    isDosLimitError(errors) ||
+    (!!probe.safeErrorPattern &&
+      !!errors?.some((e) => probe.safeErrorPattern?.test(e.message)))
+  )
+}
+
+/** Indica si algún error GraphQL revela un límite de recursos aplicado */
+function isDosLimitError(
+  errors: readonly { message: string }[] | undefined
+): boolean {
+  return (
+    !!errors &&
+    errors.some((e) =>
+      DOS_LIMIT_KEYWORDS.some((keyword) =>
+        e.message.toLowerCase().includes(keyword)
+      )
+    )
+  )
+}
+
 /** Maneja errores comunes en chequeos DoS */
 function handlePotentialDosError(
   error: unknown,
   checkType: string,
   findings: VulnerabilityFinding[]
 ) {
+  rethrowIfBudgetExceeded(error)
   const axiosError = error as AxiosError<{ errors?: GraphQLError[] }>
   const gqlErrors = axiosError.response?.data?.errors
   const errorMessage = getErrorMessage(error)
 
-  if (
-    gqlErrors &&
-    gqlErrors.some(
-      (e) =>
-        e.message.toLowerCase().includes('limit') ||
-        e.message.toLowerCase().includes('complexity') ||
-        e.message.toLowerCase().includes('depth')
-    )
-  ) {
+  if (isDosLimitError(gqlErrors) || axiosError.response?.status === 413) {
     console.log(
       `[DosScanner] Chequeo DoS (${checkType}) OK (límite detectado).`
     )
@@ -137,7 +908,9 @@ function handlePotentialDosError(
       createFinding(
         'Medium',
         `Timeout en Chequeo DoS (${checkType})`,
-        `La petición para el chequeo DoS (${checkType}) excedió el tiempo límite.`
+        `La petición para el chequeo DoS (${checkType}) excedió el tiempo límite.`,
+        undefined,
+        { ...FINDING_CLASSES.resourceConsumption, confidence: 'Low' }
       )
     )
   } else {
@@ -149,7 +922,9 @@ function handlePotentialDosError(
       createFinding(
         'Low',
         `Error Inesperado en Chequeo DoS (${checkType})`,
-        `La petición causó un error (${errorMessage}).`
+        `La petición causó un error (${errorMessage}).`,
+        undefined,
+        { ...FINDING_CLASSES.scanError, confidence: 'Low' }
       )
     )
   }
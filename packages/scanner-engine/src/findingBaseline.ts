@@ -0,0 +1,163 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type {
+  BaselineFinding,
+  FindingBaseline,
+  FindingDiff,
+  FindingSuppression,
+  ScanResult,
+  SuppressionFile,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { computeFingerprint } from './findingFingerprint'
+import { getErrorMessage } from './utils'
+
+const BASELINE_VERSION = 1
+
+/** Baseline con los hallazgos de un escaneo, para compararla con los siguientes */
+export function createBaseline(result: ScanResult): FindingBaseline {
+  return {
+    version: BASELINE_VERSION,
+    createdAt: new Date(result.completedAt ?? Date.now()).toISOString(),
+    target: result.target.url,
+    scanId: result.scanId,
+    findings: result.findings.map((finding) => ({
+      fingerprint: fingerprintOf(finding),
+      severity: finding.severity,
+      description: finding.description,
+      ...(finding.check ? { check: finding.check } : {}),
+      ...(finding.location ? { location: finding.location } : {}),
+    })),
+  }
+}
+
+/**
+ * Carga una baseline. También acepta un ScanResult en JSON (ej: el informe
+ * `--format json` de una ejecución anterior) y lo convierte.
+ */
+export async function loadBaseline(filePath: string): Promise<FindingBaseline> {
+  const content = await readJson(filePath, 'baseline')
+  if (isRecord(content) && Array.isArray(content.findings)) {
+    if (content.version === BASELINE_VERSION) {
+      return content as unknown as FindingBaseline
+    }
+    if (typeof content.scanId === 'string' && isRecord(content.target)) {
+      return createBaseline(content as unknown as ScanResult)
+    }
+  }
+  throw new Error(
+    `El archivo ${filePath} no es una baseline ni un resultado de escaneo en JSON.`
+  )
+}
+
+/** Carga y valida un archivo de supresiones (`{ "suppressions": [...] }`) */
+export async function loadSuppressions(
+  filePath: string
+): Promise<FindingSuppression[]> {
+  const content = await readJson(filePath, 'supresiones')
+  const suppressions = isRecord(content)
+    ? (content as Partial<SuppressionFile>).suppressions
+    : undefined
+  if (!Array.isArray(suppressions)) {
+    throw new Error(
+      `El archivo de supresiones ${filePath} debe contener un array "suppressions".`
+    )
+  }
+  suppressions.forEach((suppression, index) => {
+    const problem = validateSuppression(suppression)
+    if (problem) {
+      throw new Error(`Supresión #${index + 1} de ${filePath}: ${problem}`)
+    }
+  })
+  return suppressions
+}
+
+/**
+ * Clasifica los hallazgos del escaneo frente a la baseline y las supresiones
+ * vigentes. Una supresión caducada deja de aplicarse y se devuelve aparte.
+ */
+export function diffFindings(
+  findings: VulnerabilityFinding[],
+  baseline?: FindingBaseline,
+  suppressions: FindingSuppression[] = [],
+  now: Date = new Date()
+): FindingDiff {
+  const expiredSuppressions = suppressions.filter((s) => isExpired(s, now))
+  const active = new Map(
+    suppressions
+      .filter((s) => !isExpired(s, now))
+      .map((s) => [s.fingerprint, s])
+  )
+  const baselineFindings = new Map<string, BaselineFinding>(
+    (baseline?.findings ?? []).map((f) => [f.fingerprint, f])
+  )
+  const diff: FindingDiff = {
+    new: [],
+    unchanged: [],
+    fixed: [],
+    suppressed: [],
+    expiredSuppressions,
+  }
+
+  const seen = new Set<string>()
+  for (const finding of findings) {
+    const fingerprint = fingerprintOf(finding)
+    seen.add(fingerprint)
+    const suppression = active.get(fingerprint)
+    if (suppression) diff.suppressed.push({ finding, suppression })
+    else if (baselineFindings.has(fingerprint)) diff.unchanged.push(finding)
+    else diff.new.push(finding)
+  }
+  diff.fixed = [...baselineFindings.values()].filter(
+    (f) => !seen.has(f.fingerprint)
+  )
+  return diff
+}
+
+// Los resultados anteriores a los fingerprints se recalculan al vuelo
+function fingerprintOf(finding: VulnerabilityFinding): string {
+  return finding.fingerprint ?? computeFingerprint(finding)
+}
+
+function isExpired(suppression: FindingSuppression, now: Date): boolean {
+  return (
+    suppression.expiresAt !== undefined &&
+    new Date(suppression.expiresAt).getTime() <= now.getTime()
+  )
+}
+
+function validateSuppression(suppression: unknown): string | undefined {
+  if (!isRecord(suppression)) return 'debe ser un objeto.'
+  if (typeof suppression.fingerprint !== 'string' || !suppression.fingerprint) {
+    return 'falta "fingerprint".'
+  }
+  if (
+    typeof suppression.justification !== 'string' ||
+    !suppression.justification.trim()
+  ) {
+    return `falta "justification" para ${suppression.fingerprint}.`
+  }
+  if (
+    suppression.expiresAt !== undefined &&
+    (typeof suppression.expiresAt !== 'string' ||
+      Number.isNaN(Date.parse(suppression.expiresAt)))
+  ) {
+    return `"expiresAt" de ${suppression.fingerprint} no es una fecha válida.`
+  }
+  return undefined
+}
+
+async function readJson(filePath: string, kind: string): Promise<unknown> {
+  const content = await fs.promises.readFile(path.resolve(filePath), 'utf-8')
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new Error(
+      `El archivo de ${kind} ${filePath} no es un JSON válido: ${getErrorMessage(error)}`
+    )
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
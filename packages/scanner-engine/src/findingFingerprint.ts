@@ -0,0 +1,89 @@
+import { createHash } from 'crypto'
+import type {
+  FindingOccurrence,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+
+const FINGERPRINT_LENGTH = 16 // Caracteres hex del sha256
+const SEVERITY_RANK: Record<VulnerabilityFinding['severity'], number> = {
+  Info: 0,
+  Low: 1,
+  Medium: 2,
+  High: 3,
+  Critical: 4,
+}
+
+/**
+ * Fingerprint determinista del hallazgo: el mismo check, título y location
+ * (operación, campo, argumento, roles...) dan el mismo valor en cada escaneo.
+ */
+export function computeFingerprint(finding: VulnerabilityFinding): string {
+  const location = finding.location ?? {}
+  const parts = [
+    finding.check ?? 'scan',
+    finding.description,
+    location.operation,
+    location.field,
+    location.argument,
+    location.attacker,
+    location.victim,
+    location.detail,
+  ]
+  return createHash('sha256')
+    .update(JSON.stringify(parts))
+    .digest('hex')
+    .slice(0, FINGERPRINT_LENGTH)
+}
+
+/**
+ * Asigna fingerprint (también como id) a los hallazgos desde `from` y agrupa
+ * los que repiten uno ya existente: el primero guarda todas las apariciones.
+ */
+export function groupFindings(
+  findings: VulnerabilityFinding[],
+  from: number
+): void {
+  const byFingerprint = new Map<string, VulnerabilityFinding>()
+  for (const finding of findings.slice(0, from)) {
+    if (finding.fingerprint) byFingerprint.set(finding.fingerprint, finding)
+  }
+  let index = from
+  while (index < findings.length) {
+    const finding = findings[index]
+    const fingerprint = computeFingerprint(finding)
+    const existing = byFingerprint.get(fingerprint)
+    if (existing) {
+      mergeFinding(existing, finding)
+      findings.splice(index, 1)
+      continue
+    }
+    finding.fingerprint = fingerprint
+    finding.id = fingerprint
+    byFingerprint.set(fingerprint, finding)
+    index++
+  }
+}
+
+function mergeFinding(
+  primary: VulnerabilityFinding,
+  duplicate: VulnerabilityFinding
+): void {
+  primary.occurrences ??= [toOccurrence(primary)]
+  primary.occurrences.push(toOccurrence(duplicate))
+  if (SEVERITY_RANK[duplicate.severity] > SEVERITY_RANK[primary.severity]) {
+    primary.severity = duplicate.severity
+  }
+  if (duplicate.requestIds) {
+    primary.requestIds = [
+      ...new Set([...(primary.requestIds ?? []), ...duplicate.requestIds]),
+    ]
+  }
+}
+
+function toOccurrence(finding: VulnerabilityFinding): FindingOccurrence {
+  return {
+    recommendation: finding.recommendation,
+    ...(finding.evidence ? { evidence: finding.evidence } : {}),
+    ...(finding.requestIds ? { requestIds: finding.requestIds } : {}),
+  }
+}
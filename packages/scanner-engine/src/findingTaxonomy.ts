@@ -0,0 +1,60 @@
+import type {
+  FindingCategory,
+  InjectionCategory,
+} from '@graphql-sentinel/shared-types'
+
+export interface FindingClass {
+  category: FindingCategory
+  cwe?: string
+  owasp?: string // OWASP API Security Top 10 2023
+}
+
+/** Clasificación (categoría, CWE, OWASP API Top 10) de cada tipo de hallazgo */
+export const FINDING_CLASSES = {
+  resourceConsumption: { category: 'DoS', cwe: 'CWE-400', owasp: 'API4:2023' },
+  unboundedAllocation: { category: 'DoS', cwe: 'CWE-770', owasp: 'API4:2023' },
+  uncontrolledRecursion: {
+    category: 'DoS',
+    cwe: 'CWE-674',
+    owasp: 'API4:2023',
+  },
+  quantityValidation: { category: 'DoS', cwe: 'CWE-1284', owasp: 'API4:2023' },
+  bola: { category: 'BOLA', cwe: 'CWE-639', owasp: 'API1:2023' },
+  bfla: { category: 'BFLA', cwe: 'CWE-285', owasp: 'API5:2023' },
+  introspection: {
+    category: 'Introspection',
+    cwe: 'CWE-200',
+    owasp: 'API8:2023',
+  },
+  disclosure: {
+    category: 'InformationDisclosure',
+    cwe: 'CWE-209',
+    owasp: 'API8:2023',
+  },
+  batching: { category: 'Batching', cwe: 'CWE-799', owasp: 'API4:2023' },
+  csrf: { category: 'CSRF', cwe: 'CWE-352', owasp: 'API8:2023' },
+  unauthenticated: {
+    category: 'Authentication',
+    cwe: 'CWE-306',
+    owasp: 'API2:2023',
+  },
+  scanError: { category: 'ScanError' },
+} satisfies Record<string, FindingClass>
+
+const INJECTION_CWES: Record<InjectionCategory, string> = {
+  sql: 'CWE-89',
+  nosql: 'CWE-943',
+  command: 'CWE-78',
+  ssrf: 'CWE-918',
+  template: 'CWE-1336',
+}
+
+/** Las inyecciones comparten categoría; el CWE depende del tipo (SQL, NoSQL...) */
+export function injectionClass(category: InjectionCategory): FindingClass {
+  // SSRF tiene entrada propia en el Top 10; el resto entra en API8 (misconfiguration)
+  return {
+    category: 'Injection',
+    cwe: INJECTION_CWES[category],
+    owasp: category === 'ssrf' ? 'API7:2023' : 'API8:2023',
+  }
+}
@@ -4,20 +4,110 @@ import {
   getNamedType,
   isScalarType,
   GraphQLFieldMap,
-  print,
   Kind,
   FieldNode,
-  OperationDefinitionNode,
   DocumentNode,
   NameNode,
-  ArgumentNode,
   StringValueNode,
   SelectionNode,
   isListType,
   isNonNullType,
   OperationTypeNode,
+  GraphQLField,
+  GraphQLInputType,
+  isEnumType,
+  isInputObjectType,
+  GraphQLObjectType,
+  GraphQLNamedType,
+  SelectionSetNode,
+  FragmentDefinitionNode,
+  isInterfaceType,
+  isAbstractType,
+  getNullableType,
+  parseType,
+  VariableNode,
+  VariableDefinitionNode,
 } from 'graphql'
-import { BolaPointOfInterest } from './types'
+import type {
+  ArgumentValueOverrides,
+  QueryCostModel,
+} from '@graphql-sentinel/shared-types'
+import { splitIdentifierWords } from './utils'
+import {
+  BolaPointOfInterest,
+  BuiltOperation,
+  SynthesizedArguments,
+  PaginatedField,
+  RecursivePath,
+  RecursivePathStep,
+  RootOperation,
+} from './types'
+
+const PAGE_SIZE_ARGUMENT_NAMES = ['first', 'last', 'limit', 'pageSize', 'take']
+const OFFSET_ARGUMENT_NAMES = ['offset', 'skip']
+const MAX_INPUT_OBJECT_DEPTH = 5
+const ROOT_OPERATION_NODES: Record<RootOperation, OperationTypeNode> = {
+  query: OperationTypeNode.QUERY,
+  mutation: OperationTypeNode.MUTATION,
+  subscription: OperationTypeNode.SUBSCRIPTION,
+}
+const SAMPLE_DATE_TIME = '2024-01-01T00:00:00.000Z'
+const SAMPLE_DATE = '2024-01-01'
+const SAMPLE_TIME = '12:00:00'
+const SAMPLE_EMAIL = 'sentinel@example.com'
+const SAMPLE_URL = 'https://example.com'
+const SAMPLE_UUID = '00000000-0000-4000-8000-000000000000'
+const SAMPLE_PHONE = '+15555550100'
+const SAMPLE_IP = '127.0.0.1'
+// Ejemplos para escalares personalizados habituales, por nombre exacto del
+// escalar (undefined: no se pueden enviar en JSON)
+const CUSTOM_SCALAR_SAMPLES: Record<string, unknown> = {
+  Upload: undefined,
+  File: undefined,
+  DateTime: SAMPLE_DATE_TIME,
+  Timestamp: SAMPLE_DATE_TIME,
+  Instant: SAMPLE_DATE_TIME,
+  Date: SAMPLE_DATE,
+  LocalDate: SAMPLE_DATE,
+  Time: SAMPLE_TIME,
+  LocalTime: SAMPLE_TIME,
+  Email: SAMPLE_EMAIL,
+  EmailAddress: SAMPLE_EMAIL,
+  URL: SAMPLE_URL,
+  URI: SAMPLE_URL,
+  UUID: SAMPLE_UUID,
+  GUID: SAMPLE_UUID,
+  JSON: {},
+  JSONObject: {},
+  ObjectID: '507f1f77bcf86cd799439011', // 24 caracteres hexadecimales (MongoDB)
+  Point: { type: 'Point', coordinates: [0, 0] }, // GeoJSON
+  Latitude: 0,
+  Longitude: 0,
+  PhoneNumber: SAMPLE_PHONE,
+  IP: SAMPLE_IP,
+  IPv4: SAMPLE_IP,
+  Long: 1,
+  BigInt: 1,
+  Decimal: 1,
+}
+// Para el resto, por palabras completas del nombre unidas con '_' (ej:
+// 'PositiveInt' -> 'positive_int'), así 'Point' no se toma por un entero
+const CUSTOM_SCALAR_PATTERNS: [RegExp, unknown][] = [
+  [/(^|_)(upload|file)(_|$)/, undefined],
+  [/(^|_)(date_?time|timestamp|instant)(_|$)/, SAMPLE_DATE_TIME],
+  [/(^|_)date(_|$)/, SAMPLE_DATE],
+  [/(^|_)time(_|$)/, SAMPLE_TIME],
+  [/(^|_)email(_|$)/, SAMPLE_EMAIL],
+  [/(^|_)(url|uri)(_|$)/, SAMPLE_URL],
+  [/(^|_)(uuid|guid)(_|$)/, SAMPLE_UUID],
+  [/(^|_)(json|map)(_|$)/, {}],
+  [/(^|_)phone(_|$)/, SAMPLE_PHONE],
+  [/(^|_)(ip|ipv4|ip_address)(_|$)/, SAMPLE_IP],
+  [
+    /(^|_)(long|big_?int|short|byte|decimal|money|number|int|integer|float)(_|$)/,
+    1,
+  ],
+]
 
 /** Encuentra queries/mutations con argumentos ID en el schema */
 export function findBolaPointsOfInterest(
@@ -25,16 +115,25 @@ export function findBolaPointsOfInterest(
   targetObjectTypes?: string[]
 ): BolaPointOfInterest[] {
   const points: BolaPointOfInterest[] = []
-  const queryType = schema.getQueryType()
-  const mutationType = schema.getMutationType()
-
   const processFields = (
     fields: GraphQLFieldMap<any, any> | null | undefined,
-    operation: 'query' | 'mutation'
+    operation: RootOperation
   ) => {
     if (!fields) return
     for (const fieldName in fields) {
       const field = fields[fieldName]
+      const relayPoints = findRelayNodePoints(schema, field, operation)
+      if (relayPoints) {
+        points.push(
+          ...relayPoints.filter(
+            (p) =>
+              !targetObjectTypes ||
+              targetObjectTypes.length === 0 ||
+              targetObjectTypes.includes(p.returnTypeName as string)
+          )
+        )
+        continue
+      }
       const idArg = field.args.find((arg) => {
         const argType = getNamedType(arg.type)
         return (
@@ -60,35 +159,108 @@ export function findBolaPointsOfInterest(
     }
   }
 
-  processFields(queryType?.getFields(), 'query')
-  processFields(mutationType?.getFields(), 'mutation')
+  processFields(schema.getQueryType()?.getFields(), 'query')
+  processFields(schema.getMutationType()?.getFields(), 'mutation')
+  processFields(schema.getSubscriptionType()?.getFields(), 'subscription')
 
   return points
 }
 
+/**
+ * Detecta los campos Relay node(id: ID!) / nodes(ids: [ID!]!) que devuelven una
+ * interfaz, y genera un punto BOLA por cada tipo concreto que la implementa.
+ */
+function findRelayNodePoints(
+  schema: GraphQLSchema,
+  field: GraphQLField<unknown, unknown>,
+  operation: RootOperation
+): BolaPointOfInterest[] | null {
+  if (operation !== 'query' || !['node', 'nodes'].includes(field.name)) {
+    return null
+  }
+  const returnType = getNamedType(field.type)
+  if (!isAbstractType(returnType)) return null
+  const idArg = field.args.find((arg) => getNamedType(arg.type).name === 'ID')
+  if (!idArg) return null
+  const relayField = field.name as 'node' | 'nodes'
+  return schema.getPossibleTypes(returnType).map((possibleType) => ({
+    fieldName: field.name,
+    idArgName: idArg.name,
+    operation,
+    returnTypeName: possibleType.name,
+    relayField,
+  }))
+}
+
+/** Codifica un ID global Relay: base64('Tipo:id') */
+export function toGlobalId(typeName: string, id: string): string {
+  return Buffer.from(`${typeName}:${id}`, 'utf-8').toString('base64')
+}
+
+/** Decodifica un ID global Relay; null si no tiene el formato 'Tipo:id' */
+export function fromGlobalId(
+  globalId: string
+): { typeName: string; id: string } | null {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(globalId)) return null
+  const decoded = Buffer.from(globalId, 'base64').toString('utf-8')
+  const match = decoded.match(/^([_A-Za-z][_0-9A-Za-z]*):(.+)$/)
+  return match ? { typeName: match[1], id: match[2] } : null
+}
+
+/**
+ * Devuelve el ID global para un objeto de `ownedObjectIds`: si ya es un ID
+ * global del tipo esperado se usa tal cual, si no se codifica.
+ */
+export function resolveGlobalId(typeName: string, objectId: string): string {
+  return fromGlobalId(objectId)?.typeName === typeName
+    ? objectId
+    : toGlobalId(typeName, objectId)
+}
+
 /** Construye un nodo de operación GraphQL para BOLA */
 export function buildGraphQLOperation(
   point: BolaPointOfInterest,
   objectId: string,
-  schema: GraphQLSchema | null
-): DocumentNode | null {
+  schema: GraphQLSchema | null,
+  overrides?: ArgumentValueOverrides
+): BuiltOperation | null {
+  let idValue: unknown = objectId
+  if (point.relayField && point.returnTypeName) {
+    // Relay: ID global (lista de uno en `nodes`)
+    const globalId = resolveGlobalId(point.returnTypeName, objectId)
+    idValue = point.relayField === 'nodes' ? [globalId] : globalId
+  }
+  // Sin schema solo se conoce el argumento ID
+  let args: SynthesizedArguments | null = buildVariableArgument(
+    point.idArgName,
+    point.idArgName,
+    point.relayField === 'nodes' ? '[ID!]!' : 'ID!',
+    idValue
+  )
   let selectionSet: SelectionNode[] = [
     { kind: Kind.FIELD, name: { kind: Kind.NAME, value: 'id' } },
     { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } },
   ]
 
   if (schema) {
-    const operationType =
-      point.operation === 'query'
-        ? schema.getQueryType()
-        : schema.getMutationType()
-    const field = operationType?.getFields()[point.fieldName]
+    const field = getRootOperationType(schema, point.operation)?.getFields()[
+      point.fieldName
+    ]
     if (field) {
+      args = synthesizeFieldArguments(field, overrides, {
+        fixedValues: { [point.idArgName]: idValue },
+      })
+      if (!args) return null
       let returnType = getNamedType(field.type)
       if (isListType(returnType)) returnType = getNamedType(returnType.ofType)
       if (isNonNullType(returnType) && getNamedType(returnType)) {
         returnType = getNamedType(returnType)
       }
+      const relayType =
+        point.relayField && point.returnTypeName
+          ? schema.getType(point.returnTypeName)
+          : null
+      if (isObjectType(relayType)) returnType = relayType
 
       if (isObjectType(returnType)) {
         const fields = returnType.getFields()
@@ -116,97 +288,215 @@ export function buildGraphQLOperation(
     }
   }
 
-  const idArgument: ArgumentNode = {
-    kind: Kind.ARGUMENT,
-    name: { kind: Kind.NAME, value: point.idArgName },
-    value: { kind: Kind.STRING, value: objectId },
+  if (point.relayField && point.returnTypeName) {
+    // Relay: la selección va dentro de un inline fragment del tipo
+    selectionSet = [
+      { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } },
+      {
+        kind: Kind.INLINE_FRAGMENT,
+        typeCondition: {
+          kind: Kind.NAMED_TYPE,
+          name: { kind: Kind.NAME, value: point.returnTypeName },
+        },
+        selectionSet: { kind: Kind.SELECTION_SET, selections: selectionSet },
+      },
+    ]
   }
 
-  const operationDefinition: OperationDefinitionNode = {
-    kind: Kind.OPERATION_DEFINITION,
-    operation: point.operation as OperationTypeNode,
-    selectionSet: {
+  const document = buildOperationDocument(
+    point.operation,
+    {
+      kind: Kind.FIELD,
+      name: { kind: Kind.NAME, value: point.fieldName },
+      arguments: args.argumentNodes,
+      selectionSet: { kind: Kind.SELECTION_SET, selections: selectionSet },
+    },
+    args.variableDefinitions
+  )
+  return { document, variables: args.variables }
+}
+
+/** Busca la ruta más corta desde Query que entra en un ciclo de tipos (ej: user.friends.user) */
+export function findRecursivePath(
+  schema: GraphQLSchema,
+  overrides?: ArgumentValueOverrides
+): RecursivePath | null {
+  const queryType = schema.getQueryType()
+  if (!queryType) return null
+
+  let best: RecursivePath | null = null
+  const pathsFromQuery = findShortestObjectPaths(queryType, overrides)
+  for (const [typeName, prefix] of pathsFromQuery) {
+    const type = schema.getType(typeName)
+    if (!isObjectType(type)) continue
+    // Ciclo más corto que sale de `type` y vuelve a él
+    for (const [innerName, innerPath] of findShortestObjectPaths(
+      type,
+      overrides
+    )) {
+      const innerType = schema.getType(innerName)
+      if (!isObjectType(innerType)) continue
+      for (const field of Object.values(innerType.getFields())) {
+        if (getNamedType(field.type).name !== type.name) continue
+        const args = synthesizeFieldArguments(field, overrides, {
+          variablePrefix: `${innerType.name}_${field.name}_`,
+        })
+        if (!args) continue
+        const cycle = [...innerPath, { fieldName: field.name, args }]
+        if (
+          !best ||
+          prefix.length + cycle.length < best.prefix.length + best.cycle.length
+        ) {
+          best = { prefix, cycle }
+        }
+      }
+    }
+  }
+  return best
+}
+
+/** BFS sobre tipos objeto: ruta más corta (en campos) a cada tipo alcanzable */
+function findShortestObjectPaths(
+  from: GraphQLObjectType,
+  overrides?: ArgumentValueOverrides
+): Map<string, RecursivePathStep[]> {
+  const paths = new Map<string, RecursivePathStep[]>([[from.name, []]])
+  const queue: GraphQLObjectType[] = [from]
+  while (queue.length > 0) {
+    const current = queue.shift() as GraphQLObjectType
+    const currentPath = paths.get(current.name) ?? []
+    for (const field of Object.values(current.getFields())) {
+      const namedType = getNamedType(field.type)
+      if (!isObjectType(namedType) || paths.has(namedType.name)) continue
+      const args = synthesizeFieldArguments(field, overrides, {
+        variablePrefix: `${current.name}_${field.name}_`,
+      })
+      if (!args) continue
+      paths.set(namedType.name, [
+        ...currentPath,
+        { fieldName: field.name, args },
+      ])
+      queue.push(namedType)
+    }
+  }
+  return paths
+}
+
+/** Genera una operación de la profundidad indicada repitiendo el ciclo de la ruta */
+export function buildDepthOperation(
+  recursivePath: RecursivePath,
+  depth: number
+): BuiltOperation {
+  return buildPathDocument(expandRecursivePath(recursivePath, depth))
+}
+
+/** Expande prefijo + ciclo hasta obtener exactamente `depth` pasos */
+export function expandRecursivePath(
+  recursivePath: RecursivePath,
+  depth: number
+): RecursivePathStep[] {
+  const steps = [...recursivePath.prefix]
+  while (steps.length < depth) {
+    steps.push(...recursivePath.cycle)
+  }
+  return steps.slice(0, depth)
+}
+
+/** Construye el documento `{ a { b { ... { __typename } } } }` para una ruta */
+export function buildPathDocument(steps: RecursivePathStep[]): BuiltOperation {
+  const args: SynthesizedArguments = {
+    argumentNodes: [],
+    variableDefinitions: [],
+    variables: {},
+  }
+  let selectionSet: SelectionSetNode = {
+    kind: Kind.SELECTION_SET,
+    selections: [
+      { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } },
+    ],
+  }
+  // Los pasos repetidos del ciclo comparten variables
+  for (const step of steps) mergeSynthesizedArguments(args, step.args)
+  for (const step of [...steps].reverse()) {
+    selectionSet = {
       kind: Kind.SELECTION_SET,
       selections: [
         {
           kind: Kind.FIELD,
-          name: { kind: Kind.NAME, value: point.fieldName },
-          arguments: [idArgument],
-          selectionSet: {
-            kind: Kind.SELECTION_SET,
-            selections: selectionSet,
-          },
+          name: { kind: Kind.NAME, value: step.fieldName },
+          arguments: step.args.argumentNodes,
+          selectionSet,
+        },
+      ],
+    }
+  }
+  return {
+    document: {
+      kind: Kind.DOCUMENT,
+      definitions: [
+        {
+          kind: Kind.OPERATION_DEFINITION,
+          operation: OperationTypeNode.QUERY,
+          variableDefinitions: args.variableDefinitions,
+          selectionSet,
         },
       ],
     },
+    variables: args.variables,
   }
-
-  return { kind: Kind.DOCUMENT, definitions: [operationDefinition] }
 }
 
-/** Genera una query GraphQL profunda, intentando usar el schema */
-export function generateDeepQuery(
-  depth: number,
-  schema: GraphQLSchema | null
-): string {
-  let path: string[] = []
-  let currentType = schema?.getQueryType()
-  if (currentType && isObjectType(currentType)) {
-    for (let i = 0; i < depth; i++) {
-      const fields = currentType?.getFields()
-      if (!fields) break
-      const nextField = Object.values(fields).find((f) => {
-        const fieldType = f.type
-        let namedType = getNamedType(fieldType)
-        if (
-          isListType(fieldType) ||
-          (isNonNullType(fieldType) && isListType(fieldType.ofType))
+/**
+ * Añade el argumento de tamaño de página (first/limit...) con `size` a cada
+ * paso de la ruta cuyo campo lo admita.
+ */
+export function applyListSizeArguments(
+  schema: GraphQLSchema,
+  steps: RecursivePathStep[],
+  size: number,
+  sizeArgumentNames: string[] = DEFAULT_COST_MODEL.listSizeArguments
+): RecursivePathStep[] {
+  let parentType: GraphQLNamedType | null | undefined = schema.getQueryType()
+  return steps.map((step) => {
+    const parentTypeName = parentType?.name
+    const field = isObjectType(parentType)
+      ? parentType.getFields()[step.fieldName]
+      : undefined
+    parentType = field ? getNamedType(field.type) : null
+    const sizeArg = field?.args.find(
+      (a) =>
+        sizeArgumentNames.includes(a.name) &&
+        getNamedType(a.type).name === 'Int' &&
+        !step.args.argumentNodes.some(
+          (existing) => existing.name.value === a.name
         )
-          return false
-        if (f.args.some((a) => isNonNullType(a.type))) return false
-        return isObjectType(namedType) && namedType.name !== currentType?.name
-      })
-
-      if (nextField) {
-        path.push(nextField.name)
-        currentType = getNamedType(nextField.type) as any
-      } else {
-        break
-      }
-    }
-  }
-
-  if (path.length > 0) {
-    let query = '{'
-    for (const fieldName of path) {
-      query += ` ${fieldName} {`
-    }
-    query += ' id __typename '
-    for (let i = 0; i < path.length; i++) {
-      query += ' }'
-    }
-    query += ' }'
-    console.log(
-      `[Engine] Generada query profunda basada en schema (profundidad ${path.length}): ${query.substring(0, 100)}...`
     )
-    return query
-  } else {
-    console.log(
-      '[Engine] Usando query profunda genérica (schema no útil/disponible).'
+    if (!sizeArg) return step
+    const sizeArgument = buildVariableArgument(
+      sizeArg.name,
+      `${parentTypeName}_${step.fieldName}_${sizeArg.name}`,
+      String(sizeArg.type),
+      size
     )
-    let query = '{'
-    let current = 'node'
-    for (let i = 0; i < depth; i++) {
-      query += ` ${current} {`
-      current = `child${i}`
-    }
-    query += ' id __typename '
-    for (let i = 0; i < depth; i++) {
-      query += ' }'
+    return {
+      ...step,
+      args: mergeSynthesizedArguments(
+        {
+          argumentNodes: [...step.args.argumentNodes],
+          variableDefinitions: [...step.args.variableDefinitions],
+          variables: { ...step.args.variables },
+        },
+        sizeArgument
+      ),
     }
-    query += ' }'
-    return query
-  }
+  })
+}
+
+/** Describe una ruta recursiva como texto (ej: user.friends.(friends)*) */
+export function describeRecursivePath(recursivePath: RecursivePath): string {
+  const prefix = recursivePath.prefix.map((s) => s.fieldName)
+  const cycle = recursivePath.cycle.map((s) => s.fieldName).join('.')
+  return [...prefix, `(${cycle})*`].join('.')
 }
 
 /** Encuentra campos que devuelven listas en el schema */
@@ -257,11 +547,29 @@ export function findListFields(schema: GraphQLSchema | null): string[] {
   return listFields.length > 0 ? listFields : commonListNames
 }
 
-/** Construye una query simple para un campo de lista pidiendo campos escalares */
+/**
+ * Construye una query simple para un campo de lista pidiendo campos escalares.
+ * Si el campo es una conexión Relay, la selección va dentro de `edges { node }`.
+ */
 export function buildGraphQLListQuery(
   fieldName: string,
-  schema: GraphQLSchema | null
-): string | null {
+  schema: GraphQLSchema | null,
+  paginationArgs: Record<string, number> = {},
+  overrides?: ArgumentValueOverrides
+): BuiltOperation | null {
+  let args: SynthesizedArguments | null = {
+    argumentNodes: [],
+    variableDefinitions: [],
+    variables: {},
+  }
+  // Sin schema no se conocen los tipos: la paginación se envía como Int
+  for (const [argName, value] of Object.entries(paginationArgs)) {
+    mergeSynthesizedArguments(
+      args,
+      buildVariableArgument(argName, argName, 'Int', value)
+    )
+  }
+  let isConnection = false
   let selectionSet: SelectionNode[] = [
     { kind: Kind.FIELD, name: { kind: Kind.NAME, value: 'id' } },
     { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } },
@@ -271,10 +579,19 @@ export function buildGraphQLListQuery(
     const queryType = schema.getQueryType()
     const field = queryType?.getFields()[fieldName]
     if (field) {
+      args = synthesizeFieldArguments(field, overrides, {
+        fixedValues: paginationArgs,
+      })
+      if (!args) return null
       let returnType = getNamedType(field.type)
       if (isListType(returnType)) returnType = getNamedType(returnType.ofType)
       if (isNonNullType(returnType))
         returnType = getNamedType(returnType.ofType)
+      const connectionNodeType = getConnectionNodeType(returnType)
+      if (connectionNodeType) {
+        isConnection = true
+        returnType = connectionNodeType
+      }
 
       if (isObjectType(returnType)) {
         const fields = returnType.getFields()
@@ -302,24 +619,88 @@ export function buildGraphQLListQuery(
     }
   }
 
-  const operationDefinition: OperationDefinitionNode = {
-    kind: Kind.OPERATION_DEFINITION,
-    operation: 'query' as OperationTypeNode,
-    selectionSet: {
-      kind: Kind.SELECTION_SET,
-      selections: [
-        {
-          kind: Kind.FIELD,
-          name: { kind: Kind.NAME, value: fieldName },
-          selectionSet: {
-            kind: Kind.SELECTION_SET,
-            selections: selectionSet,
-          },
+  if (isConnection) {
+    selectionSet = [
+      {
+        kind: Kind.FIELD,
+        name: { kind: Kind.NAME, value: 'edges' },
+        selectionSet: {
+          kind: Kind.SELECTION_SET,
+          selections: [
+            {
+              kind: Kind.FIELD,
+              name: { kind: Kind.NAME, value: 'node' },
+              selectionSet: {
+                kind: Kind.SELECTION_SET,
+                selections: selectionSet,
+              },
+            },
+          ],
         },
-      ],
+      },
+    ]
+  }
+
+  const document = buildOperationDocument(
+    'query',
+    {
+      kind: Kind.FIELD,
+      name: { kind: Kind.NAME, value: fieldName },
+      arguments: args.argumentNodes,
+      selectionSet: { kind: Kind.SELECTION_SET, selections: selectionSet },
     },
+    args.variableDefinitions
+  )
+  return { document, variables: args.variables }
+}
+
+/** Devuelve el tipo de `node` si el tipo es una conexión Relay (edges { node }) */
+export function getConnectionNodeType(
+  type: GraphQLNamedType
+): GraphQLObjectType | null {
+  if (!isObjectType(type)) return null
+  const edgesField = type.getFields()['edges']
+  if (!edgesField || !isListType(getNullableType(edgesField.type))) return null
+  const edgeType = getNamedType(edgesField.type)
+  if (!isObjectType(edgeType)) return null
+  const nodeType = edgeType.getFields()['node']
+    ? getNamedType(edgeType.getFields()['node'].type)
+    : null
+  return isObjectType(nodeType) ? nodeType : null
+}
+
+/** Encuentra campos raíz de lista o conexión con argumentos de paginación */
+export function findPaginatedFields(
+  schema: GraphQLSchema | null,
+  overrides?: ArgumentValueOverrides
+): PaginatedField[] {
+  const fields = schema?.getQueryType()?.getFields()
+  if (!fields) return []
+
+  const paginated: PaginatedField[] = []
+  for (const field of Object.values(fields)) {
+    const isList = isListType(getNullableType(field.type))
+    const isConnection = !!getConnectionNodeType(getNamedType(field.type))
+    if (!isList && !isConnection) continue
+    const intArgs = field.args.filter(
+      (a) => getNamedType(a.type).name === 'Int'
+    )
+    const sizeArg = intArgs.find((a) =>
+      PAGE_SIZE_ARGUMENT_NAMES.includes(a.name)
+    )
+    const offsetArg = intArgs.find((a) =>
+      OFFSET_ARGUMENT_NAMES.includes(a.name)
+    )
+    if (!sizeArg && !offsetArg) continue
+    if (!synthesizeFieldArguments(field, overrides)) continue
+    paginated.push({
+      fieldName: field.name,
+      sizeArgName: sizeArg?.name,
+      offsetArgName: offsetArg?.name,
+      isConnection,
+    })
   }
-  return print({ kind: Kind.DOCUMENT, definitions: [operationDefinition] })
+  return paginated
 }
 
 /** Intenta inferir el tipo de objeto del nombre del campo (heurística simple) */
@@ -330,3 +711,374 @@ export function inferObjectTypeFromFieldName(fieldName: string): string {
   if (!typeName) return 'Object'
   return typeName.charAt(0).toUpperCase() + typeName.slice(1)
 }
+
+/**
+ * Genera variables para los argumentos de un campo: los obligatorios con
+ * valores sintetizados desde el schema y los opcionales solo si el usuario los
+ * fijó. `fixedValues` (ej: el ID de BOLA o la paginación) tiene prioridad.
+ * Null si algún argumento obligatorio no se puede generar.
+ */
+export function synthesizeFieldArguments(
+  field: GraphQLField<unknown, unknown>,
+  overrides?: ArgumentValueOverrides,
+  options: {
+    variablePrefix?: string
+    fixedValues?: Record<string, unknown>
+  } = {}
+): SynthesizedArguments | null {
+  const synthesized: SynthesizedArguments = {
+    argumentNodes: [],
+    variableDefinitions: [],
+    variables: {},
+  }
+  for (const arg of field.args) {
+    const userKey = [`${field.name}.${arg.name}`, arg.name].find(
+      (key) => overrides?.byArgument && key in overrides.byArgument
+    )
+    let value: { value: unknown } | null = null
+    if (options.fixedValues && arg.name in options.fixedValues) {
+      value = { value: options.fixedValues[arg.name] }
+    } else if (userKey) {
+      value = { value: overrides?.byArgument?.[userKey] }
+    } else if (isNonNullType(arg.type) && arg.defaultValue === undefined) {
+      value = synthesizeInputValue(arg.type, overrides)
+      if (!value) return null
+    }
+    if (!value) continue
+    mergeSynthesizedArguments(
+      synthesized,
+      buildVariableArgument(
+        arg.name,
+        `${options.variablePrefix ?? ''}${arg.name}`,
+        String(arg.type),
+        value.value
+      )
+    )
+  }
+  return synthesized
+}
+
+/**
+ * Sintetiza un valor válido para un tipo de entrada: listas de un elemento,
+ * el primer valor de los enums, objetos de entrada con sus campos obligatorios
+ * y ejemplos para escalares habituales (DateTime, Email, JSON...).
+ */
+export function synthesizeInputValue(
+  type: GraphQLInputType,
+  overrides?: ArgumentValueOverrides,
+  depth = 0
+): { value: unknown } | null {
+  if (isNonNullType(type)) {
+    return synthesizeInputValue(type.ofType, overrides, depth)
+  }
+  if (isListType(type)) {
+    const item = synthesizeInputValue(type.ofType, overrides, depth)
+    return item ? { value: [item.value] } : null
+  }
+  if (overrides?.byType && type.name in overrides.byType) {
+    return { value: overrides.byType[type.name] }
+  }
+  if (isEnumType(type)) {
+    const first = type.getValues()[0]
+    return first ? { value: first.name } : null
+  }
+  if (isInputObjectType(type)) {
+    if (depth >= MAX_INPUT_OBJECT_DEPTH) return null
+    const inputFields = Object.values(type.getFields())
+    if (type.isOneOf) {
+      // @oneOf: exactamente un campo, el primero que se pueda generar
+      for (const inputField of inputFields) {
+        const value = synthesizeInputValue(
+          inputField.type,
+          overrides,
+          depth + 1
+        )
+        if (value) return { value: { [inputField.name]: value.value } }
+      }
+      return null
+    }
+    const objectValue: Record<string, unknown> = {}
+    for (const inputField of inputFields) {
+      if (
+        !isNonNullType(inputField.type) ||
+        inputField.defaultValue !== undefined
+      ) {
+        continue
+      }
+      const value = synthesizeInputValue(inputField.type, overrides, depth + 1)
+      if (!value) return null
+      objectValue[inputField.name] = value.value
+    }
+    return { value: objectValue }
+  }
+  switch (type.name) {
+    case 'Int':
+    case 'Float':
+      return { value: 1 }
+    case 'Boolean':
+      return { value: true }
+    case 'ID':
+      return { value: '1' }
+    case 'String':
+      return { value: 'sentinel' }
+  }
+  if (type.name in CUSTOM_SCALAR_SAMPLES) {
+    const value = CUSTOM_SCALAR_SAMPLES[type.name]
+    return value === undefined ? null : { value }
+  }
+  const words = splitIdentifierWords(type.name).join('_')
+  const sample = CUSTOM_SCALAR_PATTERNS.find(([pattern]) => pattern.test(words))
+  if (!sample) return { value: 'sentinel' }
+  return sample[1] === undefined ? null : { value: sample[1] }
+}
+
+/** Argumento `nombre: $variable` con su definición y valor */
+function buildVariableArgument(
+  argumentName: string,
+  variableName: string,
+  typeString: string,
+  value: unknown
+): SynthesizedArguments {
+  const variable: VariableNode = {
+    kind: Kind.VARIABLE,
+    name: { kind: Kind.NAME, value: variableName },
+  }
+  return {
+    argumentNodes: [
+      {
+        kind: Kind.ARGUMENT,
+        name: { kind: Kind.NAME, value: argumentName },
+        value: variable,
+      },
+    ],
+    variableDefinitions: [
+      { kind: Kind.VARIABLE_DEFINITION, variable, type: parseType(typeString) },
+    ],
+    variables: { [variableName]: value },
+  }
+}
+
+/** Añade a `target` los argumentos de `source` (sin duplicar variables) */
+function mergeSynthesizedArguments(
+  target: SynthesizedArguments,
+  source: SynthesizedArguments
+): SynthesizedArguments {
+  target.argumentNodes.push(...source.argumentNodes)
+  for (const definition of source.variableDefinitions) {
+    const name = definition.variable.name.value
+    if (name in target.variables) continue
+    target.variableDefinitions.push(definition)
+    target.variables[name] = source.variables[name]
+  }
+  return target
+}
+
+/** Envuelve una selección raíz en una operación con sus variables */
+function buildOperationDocument(
+  operation: RootOperation,
+  selection: FieldNode,
+  variableDefinitions: VariableDefinitionNode[]
+): DocumentNode {
+  return {
+    kind: Kind.DOCUMENT,
+    definitions: [
+      {
+        kind: Kind.OPERATION_DEFINITION,
+        operation: ROOT_OPERATION_NODES[operation],
+        variableDefinitions,
+        selectionSet: { kind: Kind.SELECTION_SET, selections: [selection] },
+      },
+    ],
+  }
+}
+
+/** Modelo de coste por defecto (similar al de las APIs públicas con rate limit por coste) */
+export const DEFAULT_COST_MODEL: QueryCostModel = {
+  objectFieldCost: 1,
+  scalarFieldCost: 0,
+  defaultListSize: 10,
+  listSizeArguments: ['first', 'last', 'limit', 'pageSize', 'take', 'size'],
+  fieldWeights: {},
+}
+
+/**
+ * Estima el coste de una operación: cada campo cuesta su peso más el coste de
+ * su sub-selección, multiplicado por el tamaño de lista (argumento first/limit
+ * o `defaultListSize` si es una lista sin argumento).
+ */
+export function calculateQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  costModel?: Partial<QueryCostModel>,
+  variables: Record<string, unknown> = {}
+): number {
+  const model: QueryCostModel = {
+    ...DEFAULT_COST_MODEL,
+    ...costModel,
+    fieldWeights: {
+      ...DEFAULT_COST_MODEL.fieldWeights,
+      ...costModel?.fieldWeights,
+    },
+  }
+  const fragments = new Map<string, FragmentDefinitionNode>()
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition)
+    }
+  }
+
+  const listSize = (node: FieldNode): number | undefined => {
+    for (const arg of node.arguments ?? []) {
+      if (!model.listSizeArguments.includes(arg.name.value)) continue
+      const value =
+        arg.value.kind === Kind.INT
+          ? Number(arg.value.value)
+          : arg.value.kind === Kind.VARIABLE
+            ? Number(variables[arg.value.name.value])
+            : NaN
+      if (Number.isFinite(value)) return Math.max(value, 0)
+    }
+    return undefined
+  }
+
+  const selectionSetCost = (
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLNamedType | undefined,
+    visitedFragments: Set<string>
+  ): number => {
+    let total = 0
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.INLINE_FRAGMENT) {
+        const conditionType = selection.typeCondition
+          ? schema.getType(selection.typeCondition.name.value)
+          : parentType
+        total += selectionSetCost(
+          selection.selectionSet,
+          conditionType ?? undefined,
+          visitedFragments
+        )
+        continue
+      }
+      if (selection.kind === Kind.FRAGMENT_SPREAD) {
+        const fragment = fragments.get(selection.name.value)
+        if (!fragment || visitedFragments.has(fragment.name.value)) continue
+        total += selectionSetCost(
+          fragment.selectionSet,
+          schema.getType(fragment.typeCondition.name.value) ?? undefined,
+          new Set([...visitedFragments, fragment.name.value])
+        )
+        continue
+      }
+
+      const fieldName = selection.name.value
+      if (fieldName.startsWith('__')) continue
+      const field =
+        isObjectType(parentType) || isInterfaceType(parentType)
+          ? parentType.getFields()[fieldName]
+          : undefined
+      const namedType = field ? getNamedType(field.type) : undefined
+      const weight =
+        model.fieldWeights[`${parentType?.name}.${fieldName}`] ??
+        model.fieldWeights[fieldName] ??
+        (selection.selectionSet ? model.objectFieldCost : model.scalarFieldCost)
+      const childCost = selection.selectionSet
+        ? selectionSetCost(selection.selectionSet, namedType, visitedFragments)
+        : 0
+      const multiplier =
+        listSize(selection) ??
+        (field && isListType(getNullableType(field.type))
+          ? model.defaultListSize
+          : 1)
+      total += multiplier * (weight + childCost)
+    }
+    return total
+  }
+
+  let cost = 0
+  for (const definition of document.definitions) {
+    if (definition.kind !== Kind.OPERATION_DEFINITION) continue
+    const rootType =
+      definition.operation === OperationTypeNode.MUTATION
+        ? schema.getMutationType()
+        : definition.operation === OperationTypeNode.SUBSCRIPTION
+          ? schema.getSubscriptionType()
+          : schema.getQueryType()
+    cost += selectionSetCost(
+      definition.selectionSet,
+      rootType ?? undefined,
+      new Set()
+    )
+  }
+  return cost
+}
+
+/** Tipo raíz (Query, Mutation o Subscription) de una operación */
+export function getRootOperationType(
+  schema: GraphQLSchema,
+  operation: RootOperation
+): GraphQLObjectType | null | undefined {
+  if (operation === 'subscription') return schema.getSubscriptionType()
+  return operation === 'query'
+    ? schema.getQueryType()
+    : schema.getMutationType()
+}
+
+/**
+ * Construye `{ campo(argsObligatorios) { __typename escalares } }` para un campo
+ * raíz. Null si algún argumento obligatorio no se puede generar.
+ */
+export function buildRootFieldOperation(
+  schema: GraphQLSchema,
+  operation: RootOperation,
+  fieldName: string,
+  overrides?: ArgumentValueOverrides,
+  fixedValues?: Record<string, unknown>
+): BuiltOperation | null {
+  const field = getRootOperationType(schema, operation)?.getFields()[fieldName]
+  if (!field) return null
+  const args = synthesizeFieldArguments(field, overrides, { fixedValues })
+  if (!args) return null
+
+  const returnType = getNamedType(field.type)
+  let selectionSet: SelectionSetNode | undefined
+  if (isObjectType(returnType) || isInterfaceType(returnType)) {
+    const scalarFields = Object.values(returnType.getFields())
+      .filter(
+        (f) =>
+          isScalarType(getNamedType(f.type)) &&
+          !f.args.some((a) => isNonNullType(a.type))
+      )
+      .slice(0, 3)
+    selectionSet = {
+      kind: Kind.SELECTION_SET,
+      selections: [
+        { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } },
+        ...scalarFields.map(
+          (f): FieldNode => ({
+            kind: Kind.FIELD,
+            name: { kind: Kind.NAME, value: f.name },
+          })
+        ),
+      ],
+    }
+  } else if (isAbstractType(returnType)) {
+    selectionSet = {
+      kind: Kind.SELECTION_SET,
+      selections: [
+        { kind: Kind.FIELD, name: { kind: Kind.NAME, value: '__typename' } },
+      ],
+    }
+  }
+
+  const document = buildOperationDocument(
+    operation,
+    {
+      kind: Kind.FIELD,
+      name: { kind: Kind.NAME, value: fieldName },
+      arguments: args.argumentNodes,
+      selectionSet,
+    },
+    args.variableDefinitions
+  )
+  return { document, variables: args.variables }
+}
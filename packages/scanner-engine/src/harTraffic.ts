@@ -0,0 +1,340 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios'
+import * as fs from 'fs'
+import * as path from 'path'
+import type {
+  HarConfig,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { delay } from './utils'
+
+const HAR_VERSION = '1.2'
+const CREATOR = { name: 'graphql-sentinel', version: '0.2.0' }
+
+/** Config de Axios con el ID de la entrada HAR del último intento */
+export type TracedRequestConfig = InternalAxiosRequestConfig & {
+  sentinelRequestId?: string
+}
+
+interface HarHeader {
+  name: string
+  value: string
+}
+
+interface HarEntry {
+  _requestId: string
+  _error?: { code?: string; message: string } // Intento sin respuesta (timeout, conexión...)
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarHeader[]
+    queryString: HarHeader[]
+    cookies: []
+    headersSize: number
+    bodySize: number
+    postData?: { mimeType: string; text: string }
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarHeader[]
+    cookies: []
+    content: { size: number; mimeType: string; text: string }
+    redirectURL: string
+    headersSize: number
+    bodySize: number
+  }
+  cache: Record<string, never>
+  timings: { send: number; wait: number; receive: number }
+}
+
+interface HarLog {
+  log: {
+    version: string
+    creator: typeof CREATOR
+    entries: HarEntry[]
+  }
+}
+
+export interface HarTraffic {
+  readonly mode: HarConfig['mode']
+  /** Transporte del cliente HTTP: graba cada intento o lo responde desde el HAR */
+  wrapAdapter(adapter: AxiosAdapter): AxiosAdapter
+  /** Asigna a cada hallazgo desde `from` las peticiones emitidas desde el hallazgo anterior */
+  linkFindings(from: number): void
+  /** Escribe el HAR grabado (solo en modo record) */
+  save(): Promise<void>
+}
+
+/**
+ * Grabación y reproducción del tráfico del escaneo en formato HAR. Al
+ * reproducir, cada petición consume en orden las entradas grabadas con el
+ * mismo método, URL y cuerpo, así que un escaneo determinista se repite igual.
+ */
+export function createHarTraffic(
+  config: HarConfig,
+  findings: VulnerabilityFinding[],
+  redact: <T>(value: T) => T
+): HarTraffic {
+  const entries: HarEntry[] = []
+  // Peticiones aún no asignadas a hallazgos, con el nº de hallazgos al emitirse
+  let pending: { id: string; findingIndex: number }[] = []
+  let replay: Promise<Map<string, HarEntry[]>> | undefined
+  const consumed = new Map<string, number>()
+
+  const track = (id: string) => {
+    pending.push({ id, findingIndex: findings.length })
+  }
+
+  const loadReplay = () => {
+    replay ??= fs.promises
+      .readFile(path.resolve(config.path), 'utf-8')
+      .then((content) => {
+        const har = JSON.parse(content) as HarLog
+        const byKey = new Map<string, HarEntry[]>()
+        for (const entry of har.log?.entries ?? []) {
+          const key = entryKey(
+            entry.request.method,
+            entry.request.url,
+            entry.request.postData?.text
+          )
+          byKey.set(key, [...(byKey.get(key) ?? []), entry])
+        }
+        console.log(
+          `[HarTraffic] Reproduciendo ${har.log?.entries?.length ?? 0} peticiones desde ${config.path}`
+        )
+        return byKey
+      })
+    return replay
+  }
+
+  const record =
+    (adapter: AxiosAdapter): AxiosAdapter =>
+    async (requestConfig: TracedRequestConfig) => {
+      const id = `req-${String(entries.length + 1).padStart(5, '0')}`
+      requestConfig.sentinelRequestId = id
+      track(id)
+      const started = new Date()
+      try {
+        const response = await adapter(requestConfig)
+        entries.push(toHarEntry(id, requestConfig, started, response))
+        return response
+      } catch (error) {
+        entries.push(toHarEntry(id, requestConfig, started, undefined, error))
+        throw error
+      }
+    }
+
+  const answer = async (
+    requestConfig: TracedRequestConfig
+  ): Promise<AxiosResponse> => {
+    const byKey = await loadReplay()
+    // El HAR se guarda sin secretos: la petición se compara también redactada
+    const key = redact(
+      entryKey(
+        requestConfig.method ?? 'get',
+        requestUrl(requestConfig),
+        requestBody(requestConfig.data)
+      )
+    )
+    const candidates = byKey.get(key)
+    if (!candidates?.length) {
+      throw new AxiosError(
+        `El HAR no contiene ninguna petición ${key}`,
+        'ERR_HAR_NO_ENTRY',
+        requestConfig
+      )
+    }
+    // Si el escaneo repite más veces una petición que al grabar, se reutiliza la última
+    const index = consumed.get(key) ?? 0
+    consumed.set(key, index + 1)
+    const entry = candidates[Math.min(index, candidates.length - 1)]
+    requestConfig.sentinelRequestId = entry._requestId
+    track(entry._requestId)
+    // Solo si se pide: los chequeos de DoS e inyección por tiempo la miden,
+    // pero esperarla hace la reproducción tan lenta como el escaneo grabado
+    if (config.replayLatency) await delay(entry.time)
+    return fromHarEntry(entry, requestConfig)
+  }
+
+  return {
+    mode: config.mode,
+    wrapAdapter(adapter) {
+      return config.mode === 'replay' ? answer : record(adapter)
+    },
+    linkFindings(stepStart) {
+      // Los hallazgos que ya traen sus peticiones (ej: fugas de información) no cortan el tramo
+      let from = stepStart
+      for (let i = stepStart; i < findings.length; i++) {
+        if (findings[i].requestIds) continue
+        const requestIds = pending
+          .filter((r) => r.findingIndex >= from && r.findingIndex <= i)
+          .map((r) => r.id)
+        if (requestIds.length > 0) findings[i].requestIds = requestIds
+        from = i + 1
+      }
+      pending = []
+    },
+    async save() {
+      if (config.mode !== 'record') return
+      const har: HarLog = {
+        log: { version: HAR_VERSION, creator: CREATOR, entries },
+      }
+      const filePath = path.resolve(config.path)
+      // Los secretos del escaneo no se escriben en disco
+      await fs.promises.writeFile(
+        filePath,
+        JSON.stringify(redact(har), null, 2)
+      )
+      console.log(
+        `[HarTraffic] ${entries.length} peticiones grabadas en ${filePath}`
+      )
+    },
+  }
+}
+
+function requestUrl(requestConfig: InternalAxiosRequestConfig): string {
+  return new URL(axios.getUri(requestConfig)).toString()
+}
+
+function entryKey(method: string, url: string, body?: string): string {
+  return `${method.toUpperCase()} ${url} ${body ?? ''}`
+}
+
+/** El adaptador recibe el cuerpo ya serializado (JSON, formulario o texto) */
+function requestBody(data: unknown): string | undefined {
+  if (data === undefined || data === null) return undefined
+  return typeof data === 'string' ? data : String(data)
+}
+
+function toHarHeaders(headers: unknown): HarHeader[] {
+  const result: HarHeader[] = []
+  for (const [name, value] of Object.entries(
+    AxiosHeaders.from(headers as AxiosHeaders).toJSON()
+  )) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      result.push({ name, value: String(item) })
+    }
+  }
+  return result
+}
+
+function toHarEntry(
+  id: string,
+  requestConfig: InternalAxiosRequestConfig,
+  started: Date,
+  response?: AxiosResponse,
+  error?: unknown
+): HarEntry {
+  const received =
+    response ?? (error instanceof AxiosError ? error.response : undefined)
+  const url = new URL(requestUrl(requestConfig))
+  const body = requestBody(requestConfig.data)
+  const text =
+    received === undefined
+      ? ''
+      : typeof received.data === 'string'
+        ? received.data
+        : JSON.stringify(received.data)
+  const time = Date.now() - started.getTime()
+  return {
+    _requestId: id,
+    ...(received
+      ? {}
+      : {
+          _error: {
+            code: error instanceof AxiosError ? error.code : undefined,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        }),
+    startedDateTime: started.toISOString(),
+    time,
+    request: {
+      method: (requestConfig.method ?? 'get').toUpperCase(),
+      url: url.toString(),
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(requestConfig.headers),
+      queryString: Array.from(url.searchParams, ([name, value]) => ({
+        name,
+        value,
+      })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: body?.length ?? 0,
+      ...(body !== undefined
+        ? {
+            postData: {
+              mimeType: String(
+                AxiosHeaders.from(requestConfig.headers).getContentType() ?? ''
+              ),
+              text: body,
+            },
+          }
+        : {}),
+    },
+    response: {
+      status: received?.status ?? 0,
+      statusText: received?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      headers: toHarHeaders(received?.headers),
+      cookies: [],
+      content: {
+        size: text.length,
+        mimeType: String(received?.headers['content-type'] ?? ''),
+        text,
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: text.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+  }
+}
+
+/** Reconstruye la respuesta (o el error) grabado aplicando validateStatus como Axios */
+function fromHarEntry(
+  entry: HarEntry,
+  requestConfig: InternalAxiosRequestConfig
+): AxiosResponse {
+  if (entry._error) {
+    throw new AxiosError(entry._error.message, entry._error.code, requestConfig)
+  }
+  const headers = new AxiosHeaders()
+  for (const { name, value } of entry.response.headers) {
+    if (name.toLowerCase() === 'set-cookie') {
+      const cookies = headers.get('set-cookie')
+      headers.set(name, [...(Array.isArray(cookies) ? cookies : []), value])
+    } else {
+      headers.set(name, value)
+    }
+  }
+  const response: AxiosResponse = {
+    data: entry.response.content.text,
+    status: entry.response.status,
+    statusText: entry.response.statusText,
+    headers,
+    config: requestConfig,
+    request: {},
+  }
+  const validateStatus = requestConfig.validateStatus
+  if (!validateStatus || validateStatus(response.status)) return response
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500
+      ? AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST,
+    requestConfig,
+    {},
+    response
+  )
+}
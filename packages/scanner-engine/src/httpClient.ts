@@ -0,0 +1,185 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios'
+import type {
+  CheckCategory,
+  HttpClientConfig,
+} from '@graphql-sentinel/shared-types'
+import { ScanPolicy } from './scanPolicy'
+import { HarTraffic } from './harTraffic'
+import { delay } from './utils'
+
+const DEFAULT_REQUESTS_PER_SECOND = 20
+const DEFAULT_MAX_CONCURRENCY = 4
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_BASE_DELAY = 1000
+const DEFAULT_MAX_RETRY_DELAY = 30000
+// Los time-based de inyección y las consultas de DoS necesitan más margen
+const DEFAULT_TIMEOUTS: Record<RequestCategory, number> = {
+  discovery: 15000,
+  availability: 20000,
+  authentication: 15000,
+  authorization: 15000,
+  injection: 30000,
+  configuration: 15000,
+}
+const RETRYABLE_STATUSES = [429, 503]
+// No se reintentan timeouts: para los chequeos de DoS son el resultado a medir
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'EPIPE']
+
+/** Categoría de un chequeo, o 'discovery' para schema y reconstrucción */
+export type RequestCategory = CheckCategory | 'discovery'
+
+export interface RequestScheduler {
+  /** Ejecuta la tarea respetando la concurrencia máxima y las peticiones por segundo */
+  run<T>(task: () => Promise<T>): Promise<T>
+}
+
+type AttemptOutcome =
+  | { response: AxiosResponse; error?: undefined }
+  | { error: unknown; response?: undefined }
+
+/** Limitador compartido por todas las peticiones (HTTP y WebSocket) del escaneo */
+export function createRequestScheduler(
+  config: HttpClientConfig = {}
+): RequestScheduler {
+  const maxConcurrency = Math.max(
+    1,
+    config.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY
+  )
+  const requestsPerSecond =
+    config.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND
+  const interval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0
+  const waiting: (() => void)[] = []
+  let active = 0
+  let nextStart = 0
+
+  const acquire = (): Promise<void> => {
+    if (active < maxConcurrency) {
+      active++
+      return Promise.resolve()
+    }
+    return new Promise((resolve) => waiting.push(resolve))
+  }
+  // El hueco pasa directamente a la siguiente tarea en espera
+  const release = () => {
+    const next = waiting.shift()
+    if (next) next()
+    else active--
+  }
+  const waitForTurn = async () => {
+    const now = Date.now()
+    const start = Math.max(now, nextStart)
+    nextStart = start + interval
+    if (start > now) await delay(start - now)
+  }
+
+  return {
+    async run(task) {
+      await acquire()
+      try {
+        await waitForTurn()
+        return await task()
+      } finally {
+        release()
+      }
+    },
+  }
+}
+
+/**
+ * Instancia de Axios del escaneo para una categoría de chequeos. Cada intento
+ * pasa por el limitador y consume presupuesto de la política; las respuestas
+ * 429/503 y las conexiones reiniciadas se reintentan con backoff. Con `traffic`
+ * los intentos se graban en el HAR o se responden desde él.
+ */
+export function createScanHttpClient(
+  policy: ScanPolicy,
+  scheduler: RequestScheduler,
+  config: HttpClientConfig = {},
+  category: RequestCategory = 'discovery',
+  traffic?: HarTraffic
+): AxiosInstance {
+  const transport = axios.getAdapter(axios.defaults.adapter)
+  const baseAdapter = traffic ? traffic.wrapAdapter(transport) : transport
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES
+
+  const attempt = (
+    requestConfig: InternalAxiosRequestConfig
+  ): Promise<AttemptOutcome> =>
+    scheduler.run(async () => {
+      policy.countRequest()
+      try {
+        return { response: await baseAdapter(requestConfig) }
+      } catch (error) {
+        return { error }
+      }
+    })
+
+  return axios.create({
+    timeout: config.timeouts?.[category] ?? DEFAULT_TIMEOUTS[category],
+    adapter: async (requestConfig) => {
+      for (let retry = 0; ; retry++) {
+        const outcome = await attempt(requestConfig)
+        const reason = retryReason(outcome)
+        if (!reason || retry >= maxRetries) {
+          if (outcome.response) return outcome.response
+          throw outcome.error
+        }
+        const wait = retryDelay(outcome, retry, config)
+        console.warn(
+          `[HttpClient] ${reason}: reintento ${retry + 1}/${maxRetries} en ${wait} ms.`
+        )
+        await delay(wait)
+      }
+    },
+  })
+}
+
+/** Motivo para reintentar el intento, o null si su resultado es definitivo */
+function retryReason(outcome: AttemptOutcome): string | null {
+  const response =
+    outcome.response ??
+    (outcome.error instanceof AxiosError ? outcome.error.response : undefined)
+  if (response) {
+    return RETRYABLE_STATUSES.includes(response.status)
+      ? `HTTP ${response.status}`
+      : null
+  }
+  if (
+    outcome.error instanceof AxiosError &&
+    RETRYABLE_ERROR_CODES.includes(outcome.error.code ?? '')
+  ) {
+    return outcome.error.code as string
+  }
+  return null
+}
+
+/** Espera de Retry-After si el servidor la indica; si no, backoff exponencial con jitter */
+function retryDelay(
+  outcome: AttemptOutcome,
+  retry: number,
+  config: HttpClientConfig
+): number {
+  const maxDelay = config.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY
+  const response =
+    outcome.response ??
+    (outcome.error instanceof AxiosError ? outcome.error.response : undefined)
+  const retryAfter = parseRetryAfter(response?.headers['retry-after'])
+  if (retryAfter !== null) return Math.min(retryAfter, maxDelay)
+  const base =
+    (config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY) * 2 ** retry
+  return Math.round(Math.min(base * (0.5 + Math.random() / 2), maxDelay))
+}
+
+/** Retry-After admite segundos o una fecha HTTP */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
@@ -1,3 +1,4 @@
+import { AxiosInstance } from 'axios'
 import { GraphQLSchema } from 'graphql'
 import type {
   ScanTarget,
@@ -5,71 +6,271 @@ import type {
   VulnerabilityFinding,
   UserContext,
 } from '@graphql-sentinel/shared-types'
-import { buildHeaders, getErrorMessage, createFinding } from './utils'
-import { runBolaChecks } from './bolaTester'
-import axios from 'axios'
+import { getErrorMessage, createFinding } from './utils'
 import { getSchema } from './schemaFetcher'
-import { runDosChecks } from './dosScanner'
+import { reconstructSchemaFromSuggestions } from './schemaReconstructor'
+import {
+  ScanPolicy,
+  RequestBudgetExceededError,
+  createScanPolicy,
+} from './scanPolicy'
+import { createRequestScheduler, createScanHttpClient } from './httpClient'
+import { createHarTraffic } from './harTraffic'
+import { groupFindings } from './findingFingerprint'
+import { FINDING_CLASSES } from './findingTaxonomy'
+import { ScanSession } from './types'
+import { getRegisteredChecks, resolveCheckSkipReason } from './checkRegistry'
+import {
+  createAuthManager,
+  attachReauthenticationInterceptor,
+} from './authManager'
+import {
+  createDisclosureAnalyzer,
+  attachDisclosureInterceptor,
+} from './disclosureAnalyzer'
 
 export async function runScan(target: ScanTarget): Promise<ScanResult> {
   console.log(`[Engine] Iniciando escaneo para: ${target.url}`)
   const startTime = new Date()
   const findings: VulnerabilityFinding[] = []
   let schema: GraphQLSchema | null = null
+  let schemaSource: ScanResult['schemaSource'] = undefined
   let scanStatus: ScanResult['status'] = 'Running'
   let scanError: string | undefined = undefined
+  const policy = createScanPolicy(target.scanPolicy)
+  const replaying = target.harConfig?.mode === 'replay'
+  // Sin red no tiene sentido limitar la velocidad al reproducir
+  const scheduler = createRequestScheduler(
+    replaying
+      ? { ...target.httpConfig, requestsPerSecond: 0 }
+      : target.httpConfig
+  )
+  const disclosure = createDisclosureAnalyzer(findings)
+  const traffic = target.harConfig
+    ? createHarTraffic(target.harConfig, findings, (value) =>
+        auth.redact(value)
+      )
+    : undefined
+  const discoveryHttp = createScanHttpClient(
+    policy,
+    scheduler,
+    target.httpConfig,
+    'discovery',
+    traffic
+  )
+  const auth = createAuthManager(target, discoveryHttp)
+  const withInterceptors = (http: AxiosInstance) => {
+    attachReauthenticationInterceptor(http, auth)
+    // Todas las respuestas del escaneo se analizan en busca de fugas de información
+    attachDisclosureInterceptor(http, disclosure)
+    return http
+  }
+  const session: ScanSession = {
+    http: withInterceptors(discoveryHttp),
+    policy,
+    auth,
+    scheduler,
+  }
+  // Cierra un paso del escaneo: sus hallazgos nuevos quedan asociados al paso y a
+  // sus peticiones, y se agrupan por fingerprint
+  let stepStart = 0
+  const endStep = (step: string) => {
+    for (const finding of findings.slice(stepStart)) finding.check ??= step
+    traffic?.linkFindings(stepStart)
+    groupFindings(findings, stepStart)
+    stepStart = findings.length
+  }
 
   try {
     const initialContext = target.userContexts?.[0] // Usa el primer contexto para pruebas iniciales
-    const initialHeaders = buildHeaders(initialContext?.authToken)
+    await session.auth.authenticateAll()
+    const initialHeaders = session.auth.headersFor(initialContext)
     try {
       console.log('[Engine] Verificando conectividad...')
-      await axios.post(
+      await session.http.post(
         target.url,
         { query: '{ __typename }' },
         { headers: initialHeaders, timeout: 5000 }
       )
       console.log('[Engine] Conectividad OK.')
+      endStep('connectivity')
     } catch (error) {
       throw new Error(
         `No se pudo conectar a ${target.url}. Verifica la URL, la red y el token inicial si aplica. Error: ${getErrorMessage(error)}`
       )
     }
 
-    schema = await getSchema(target, initialHeaders, findings)
+    const schemaResult = await runPolicyStep('schema', policy, () =>
+      getSchema(target, initialHeaders, findings, session.http)
+    )
+    schema = schemaResult?.schema ?? null
+    schemaSource = schemaResult?.source
+    endStep('schema')
 
-    await runDosChecks(target, initialHeaders, findings, schema)
+    if (!schema && target.schemaReconstruction?.enabled !== false) {
+      schema =
+        (await runPolicyStep('schemaReconstruction', policy, () =>
+          reconstructSchemaFromSuggestions(
+            target,
+            initialHeaders,
+            findings,
+            session.http
+          )
+        )) ?? null
+      if (schema) schemaSource = { kind: 'suggestions', location: target.url }
+      endStep('schemaReconstruction')
+    }
 
-    await runBolaChecks(target, schema, findings)
+    const checkContext = {
+      target,
+      schema,
+      findings,
+      session,
+      headers: initialHeaders,
+    }
+    for (const check of getRegisteredChecks()) {
+      const skipReason = resolveCheckSkipReason(
+        check,
+        target.checks,
+        schema,
+        target.userContexts?.length ?? 0,
+        replaying
+      )
+      if (skipReason) {
+        policy.recordSkippedCheck(check.id, skipReason)
+        continue
+      }
+      await runPolicyStep(check.id, policy, () =>
+        check.run({
+          ...checkContext,
+          // Cliente con el timeout de la categoría del check
+          session: {
+            ...session,
+            http: withInterceptors(
+              createScanHttpClient(
+                policy,
+                scheduler,
+                target.httpConfig,
+                check.category,
+                traffic
+              )
+            ),
+          },
+          options: target.checks?.options?.[check.id] ?? {},
+        })
+      )
+      endStep(check.id)
+    }
+
+    if (policy.isBudgetExhausted()) {
+      findings.push(
+        createFinding(
+          'Info',
+          'Presupuesto de Peticiones Agotado',
+          `El escaneo alcanzó el máximo de ${target.scanPolicy?.maxRequests} peticiones; los chequeos restantes no se ejecutaron y la cobertura es parcial.`,
+          { skippedOperations: policy.skippedOperations },
+          { category: FINDING_CLASSES.scanError.category }
+        )
+      )
+    }
 
     scanStatus = 'Completed'
   } catch (error) {
-    console.error('[Engine] Error fatal durante el escaneo:', error)
     scanStatus = 'Failed'
-    scanError = getErrorMessage(error)
+    scanError = session.auth.redact(getErrorMessage(error))
+    console.error('[Engine] Error fatal durante el escaneo:', scanError)
     if (!scanError.startsWith('No se pudo conectar')) {
       findings.push(
-        createFinding('Critical', 'Error Fatal Durante el Escaneo', scanError)
+        createFinding(
+          'Critical',
+          'Error Fatal Durante el Escaneo',
+          scanError,
+          undefined,
+          { category: FINDING_CLASSES.scanError.category }
+        )
       )
     }
   }
 
+  endStep('scan') // Hallazgos del motor (presupuesto agotado, error fatal)
+
+  try {
+    await traffic?.save()
+  } catch (error) {
+    console.warn(
+      `[Engine] No se pudo guardar el HAR del escaneo: ${getErrorMessage(error)}`
+    )
+  }
+
   const endTime = new Date()
   const result: ScanResult = {
     scanId:
       typeof crypto !== 'undefined' && crypto.randomUUID
         ? crypto.randomUUID()
         : `scan-${Date.now()}-${Math.random()}`, // Usar ID del Job si se integra con BullMQ
-    target: target,
+    // Tokens, cookies y claves no salen en el resultado
+    target: session.auth.redact(target),
     status: scanStatus,
-    findings: findings,
+    findings: session.auth.redact(findings),
+    schemaSource,
+    skippedOperations: policy.skippedOperations,
+    checks: getRegisteredChecks().map(({ id, category, description }) => ({
+      id,
+      category,
+      description,
+    })),
+    requestCount: policy.requestCount,
     error: scanError,
     startedAt: startTime,
     completedAt: endTime,
   }
 
   console.log(
-    `[Engine] Escaneo finalizado. Estado: ${result.status}. Hallazgos: ${result.findings.length}.`
+    `[Engine] Escaneo finalizado. Estado: ${result.status}. Hallazgos: ${result.findings.length}. Peticiones: ${policy.requestCount}. Omitidos: ${policy.skippedOperations.length}.`
   )
   return result
 }
+
+/** Ejecuta un paso del escaneo; si se agota el presupuesto lo corta y sigue */
+async function runPolicyStep<T>(
+  check: string,
+  policy: ScanPolicy,
+  step: () => Promise<T>
+): Promise<T | undefined> {
+  if (policy.isBudgetExhausted()) {
+    policy.recordSkippedCheck(check, 'request-budget')
+    return undefined
+  }
+  try {
+    return await step()
+  } catch (error) {
+    if (!(error instanceof RequestBudgetExceededError)) throw error
+    console.warn(`[Engine] ${error.message} Chequeo '${check}' interrumpido.`)
+    policy.recordSkippedCheck(check, 'request-budget')
+    return undefined
+  }
+}
+
+export { registerCheck, getRegisteredChecks } from './checkRegistry'
+export { createFinding, buildHeaders, buildReproduction } from './utils'
+export type { FindingDetails } from './utils'
+export { FINDING_CLASSES, injectionClass } from './findingTaxonomy'
+export type { FindingClass } from './findingTaxonomy'
+export {
+  createBaseline,
+  loadBaseline,
+  loadSuppressions,
+  diffFindings,
+} from './findingBaseline'
+export {
+  renderReport,
+  getReportContentType,
+  inferReportFormat,
+  isReportFormat,
+  REPORT_FORMATS,
+  describeClassification,
+  describeLocation,
+} from './reporting'
+export type { ReportFormat } from './reporting'
+export type { Check, CheckCategory, CheckContext, ScanSession } from './types'
+export type { RequestScheduler } from './httpClient'
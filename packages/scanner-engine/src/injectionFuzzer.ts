@@ -0,0 +1,652 @@
+import { AxiosInstance } from 'axios'
+import {
+  GraphQLSchema,
+  GraphQLError,
+  GraphQLInputType,
+  getNullableType,
+  isListType,
+  isInputObjectType,
+  isScalarType,
+  print,
+} from 'graphql'
+import type {
+  FindingConfidence,
+  InjectionCategory,
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { createFinding, getErrorMessage, buildReproduction } from './utils'
+import { buildRootFieldOperation, synthesizeInputValue } from './graphUtils'
+import { Check, CheckContext } from './types'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { injectionClass } from './findingTaxonomy'
+
+const DEFAULT_MAX_ARGUMENTS = 50
+const DEFAULT_TIME_DELAY_SECONDS = 5
+const MAX_INPUT_OBJECT_DEPTH = 3
+const RESPONSE_SNIPPET_LENGTH = 500
+const TEMPLATE_EXPRESSION_RESULT = '9359' // 1337*7, poco probable por azar
+const ALL_CATEGORIES: InjectionCategory[] = [
+  'sql',
+  'nosql',
+  'command',
+  'ssrf',
+  'template',
+]
+// Argumentos String que probablemente se usan como URL (candidatos a SSRF)
+const URL_ARGUMENT_PATTERN =
+  /url|uri|link|webhook|callback|endpoint|avatar|image|redirect/i
+// Escalares personalizados que no aceptan texto libre
+const NON_TEXT_SCALAR_PATTERN =
+  /date|time|int|float|long|decimal|number|bool|upload|file|money/i
+
+type InjectableKind = 'string' | 'url' | 'json'
+
+interface InjectableArgument {
+  operation: 'query' | 'mutation'
+  fieldName: string
+  path: (string | number)[] // Ruta dentro de las variables (ej: ['input', 'name'])
+  typeName: string
+  kind: InjectableKind
+}
+
+interface InjectionPayload {
+  category: InjectionCategory
+  value: unknown
+  appliesTo: InjectableKind[]
+  differential?: boolean // Éxito si devuelve datos donde la línea base no
+  delaySeconds?: number // Éxito si la respuesta tarda el retardo indicado
+  evaluatesTo?: string // Éxito si la respuesta contiene la expresión evaluada
+}
+
+interface ProbeResponse {
+  body: string
+  status: number
+  hasData: boolean
+  errorCount: number
+  latencyMs: number
+}
+
+interface InjectionHit {
+  detection: 'error-signature' | 'response-diff' | 'timing' | 'evaluation'
+  matchedSignature?: string
+}
+
+// Una firma de error o una evaluación son pruebas directas; el resto, indicios
+const DETECTION_CONFIDENCE: Record<
+  InjectionHit['detection'],
+  FindingConfidence
+> = {
+  'error-signature': 'High',
+  evaluation: 'High',
+  'response-diff': 'Medium',
+  timing: 'Medium',
+}
+
+const CATEGORY_DETAILS: Record<
+  InjectionCategory,
+  {
+    title: string
+    severity: VulnerabilityFinding['severity']
+    recommendation: string
+  }
+> = {
+  sql: {
+    title: 'Posible Inyección SQL',
+    severity: 'High',
+    recommendation:
+      'Usa consultas parametrizadas u ORM y nunca concatenes argumentos en SQL.',
+  },
+  nosql: {
+    title: 'Posible Inyección NoSQL',
+    severity: 'High',
+    recommendation:
+      'No pases objetos de entrada directamente a los filtros de la base de datos; valida tipos y elimina operadores ($ne, $gt, $where).',
+  },
+  command: {
+    title: 'Posible Inyección de Comandos',
+    severity: 'Critical',
+    recommendation:
+      'No construyas comandos del sistema con argumentos; usa APIs sin shell y listas blancas de valores.',
+  },
+  ssrf: {
+    title: 'Posible SSRF',
+    severity: 'High',
+    recommendation:
+      'Valida las URLs contra una lista blanca de hosts y bloquea direcciones internas y esquemas distintos de http(s).',
+  },
+  template: {
+    title: 'Posible Inyección de Plantillas (SSTI)',
+    severity: 'High',
+    recommendation:
+      'No renderices argumentos como plantillas; pásalos como datos al motor de plantillas.',
+  },
+}
+
+// Mensajes de error que delatan que el payload llegó al intérprete
+const ERROR_SIGNATURES: {
+  category: InjectionCategory
+  name: string
+  pattern: RegExp
+}[] = [
+  {
+    category: 'sql',
+    name: 'MySQL',
+    pattern: /You have an error in your SQL syntax|mysql_fetch|MySqlException/i,
+  },
+  {
+    category: 'sql',
+    name: 'PostgreSQL',
+    pattern:
+      /syntax error at or near|unterminated quoted string|PSQLException/i,
+  },
+  {
+    category: 'sql',
+    name: 'SQL Server',
+    pattern: /Unclosed quotation mark|Microsoft OLE DB|SQLServerException/i,
+  },
+  { category: 'sql', name: 'Oracle', pattern: /ORA-\d{5}/ },
+  {
+    category: 'sql',
+    name: 'SQLite',
+    pattern: /SQLITE_ERROR|sqlite3\.OperationalError/i,
+  },
+  {
+    category: 'sql',
+    name: 'SQL genérico',
+    pattern:
+      /SQLSTATE\[|QueryFailedError|SequelizeDatabaseError|PrismaClientKnownRequestError/i,
+  },
+  {
+    category: 'nosql',
+    name: 'MongoDB',
+    pattern:
+      /MongoError|MongoServerError|CastError|BSONTypeError|unknown operator/i,
+  },
+  {
+    category: 'command',
+    name: 'Salida de id',
+    pattern: /uid=\d+\(\w+\) gid=\d+/,
+  },
+  {
+    category: 'command',
+    name: 'Error de shell',
+    pattern: /sh: \d+: .+: not found|\/bin\/(ba)?sh:/,
+  },
+  {
+    category: 'ssrf',
+    name: 'Metadata cloud',
+    pattern: /ami-id|instance-id|iam\/security-credentials/,
+  },
+  { category: 'ssrf', name: '/etc/passwd', pattern: /root:x:0:0:/ },
+  { category: 'ssrf', name: 'Banner SSH', pattern: /SSH-\d\.\d-OpenSSH/ },
+  {
+    category: 'template',
+    name: 'Motor de plantillas',
+    pattern: /TemplateSyntaxError|jinja2|freemarker|Twig_Error|Liquid error/i,
+  },
+]
+
+export const injectionCheck: Check = {
+  id: 'injection',
+  category: 'injection',
+  description:
+    'Inyección SQL, NoSQL, comandos, SSRF y plantillas en los argumentos',
+  requiresSchema: true,
+  run: runInjectionChecks,
+}
+
+/** Ejecuta el fuzzing de inyección sobre los argumentos de texto del schema */
+export async function runInjectionChecks(context: CheckContext): Promise<void> {
+  const { target, headers, findings, schema, session } = context
+  const config = target.injectionConfig
+  if (config?.enabled === false) {
+    console.log('[InjectionFuzzer] Chequeo de inyección deshabilitado.')
+    return
+  }
+  if (!schema) {
+    console.log(
+      '[InjectionFuzzer] Saltando chequeo de inyección (schema no disponible).'
+    )
+    return
+  }
+
+  const categories = config?.categories ?? ALL_CATEGORIES
+  const payloads = buildInjectionPayloads(
+    config?.timeDelaySeconds ?? DEFAULT_TIME_DELAY_SECONDS
+  ).filter((p) => categories.includes(p.category))
+  const injectable = findInjectableArguments(schema).slice(
+    0,
+    config?.maxArguments ?? DEFAULT_MAX_ARGUMENTS
+  )
+  console.log(
+    `[InjectionFuzzer] ${injectable.length} argumentos inyectables, ${payloads.length} payloads (${categories.join(', ')}).`
+  )
+
+  for (const argument of injectable) {
+    if (
+      !session.policy.allows(
+        'injection',
+        argument.operation,
+        argument.fieldName
+      )
+    ) {
+      continue
+    }
+    await fuzzArgument(
+      target,
+      headers,
+      findings,
+      schema,
+      session.http,
+      argument,
+      payloads
+    )
+  }
+  console.log('[InjectionFuzzer] Chequeo de inyección completado.')
+}
+
+/** Envía la línea base y cada payload a un argumento y registra los aciertos */
+async function fuzzArgument(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  schema: GraphQLSchema,
+  http: AxiosInstance,
+  argument: InjectableArgument,
+  payloads: InjectionPayload[]
+): Promise<void> {
+  const rootType =
+    argument.operation === 'query'
+      ? schema.getQueryType()
+      : schema.getMutationType()
+  const topArgument = rootType
+    ?.getFields()
+    [argument.fieldName]?.args.find((a) => a.name === argument.path[0])
+  if (!topArgument) return
+  // El argumento raíz se incluye aunque sea opcional
+  const topValue = synthesizeInputValue(topArgument.type, target.argumentValues)
+  const built = buildRootFieldOperation(
+    schema,
+    argument.operation,
+    argument.fieldName,
+    target.argumentValues,
+    { [topArgument.name]: topValue?.value ?? null }
+  )
+  if (!built) return
+  const query = print(built.document)
+  const argumentPath = `${argument.fieldName}.${argument.path.join('.')}`
+  const send = (variables: Record<string, unknown>) =>
+    sendInjectionProbe(
+      http,
+      target.url,
+      headers,
+      query,
+      variables,
+      argument.fieldName
+    )
+
+  const baseline = await send(built.variables)
+  if (!baseline) return
+  console.log(
+    `[InjectionFuzzer] Probando ${argument.operation} ${argumentPath}`
+  )
+
+  const reported = new Set<InjectionCategory>()
+  for (const payload of payloads) {
+    if (
+      !payload.appliesTo.includes(argument.kind) ||
+      reported.has(payload.category)
+    ) {
+      continue
+    }
+    const variables = setValueAtPath(
+      built.variables,
+      argument.path,
+      payload.value
+    )
+    const response = await send(variables)
+    if (!response) continue
+
+    let hit = detectInjection(payload, baseline, response)
+    if (hit?.detection === 'timing') {
+      // Se repite para descartar latencia puntual de la red o del servidor
+      const confirmation = await send(variables)
+      if (!confirmation || !detectInjection(payload, baseline, confirmation)) {
+        hit = null
+      }
+    }
+    if (!hit) continue
+
+    reported.add(payload.category)
+    const details = CATEGORY_DETAILS[payload.category]
+    findings.push(
+      createFinding(
+        details.severity,
+        `${details.title} (${argumentPath})`,
+        `El argumento '${argumentPath}' de ${argument.operation} '${argument.fieldName}' reaccionó al payload ${JSON.stringify(payload.value)} (${describeHit(hit, payload, baseline, response)}). ${details.recommendation}`,
+        {
+          category: payload.category,
+          operation: argument.operation,
+          fieldName: argument.fieldName,
+          argumentPath,
+          argumentType: argument.typeName,
+          payload: payload.value,
+          detection: hit.detection,
+          matchedSignature: hit.matchedSignature,
+          latencyMs: response.latencyMs,
+          baselineLatencyMs: baseline.latencyMs,
+          query,
+          variables,
+          responseSnippet: response.body.slice(0, RESPONSE_SNIPPET_LENGTH),
+        },
+        {
+          ...injectionClass(payload.category),
+          confidence: DETECTION_CONFIDENCE[hit.detection],
+          location: {
+            operation: argument.operation,
+            field: argument.fieldName,
+            argument: argumentPath,
+          },
+          reproduction: buildReproduction(target.url, headers, {
+            query,
+            variables,
+          }),
+        }
+      )
+    )
+  }
+}
+
+/** Compara la respuesta del payload con la línea base */
+function detectInjection(
+  payload: InjectionPayload,
+  baseline: ProbeResponse,
+  response: ProbeResponse
+): InjectionHit | null {
+  const signature = ERROR_SIGNATURES.find(
+    (s) =>
+      s.category === payload.category &&
+      s.pattern.test(response.body) &&
+      !s.pattern.test(baseline.body)
+  )
+  if (signature) {
+    return { detection: 'error-signature', matchedSignature: signature.name }
+  }
+  if (
+    payload.evaluatesTo &&
+    response.body.includes(payload.evaluatesTo) &&
+    !baseline.body.includes(payload.evaluatesTo)
+  ) {
+    return { detection: 'evaluation' }
+  }
+  if (
+    payload.differential &&
+    !baseline.hasData &&
+    response.hasData &&
+    response.errorCount === 0
+  ) {
+    return { detection: 'response-diff' }
+  }
+  if (
+    payload.delaySeconds &&
+    response.latencyMs - baseline.latencyMs >= payload.delaySeconds * 800
+  ) {
+    return { detection: 'timing' }
+  }
+  return null
+}
+
+function describeHit(
+  hit: InjectionHit,
+  payload: InjectionPayload,
+  baseline: ProbeResponse,
+  response: ProbeResponse
+): string {
+  switch (hit.detection) {
+    case 'error-signature':
+      return `error de ${hit.matchedSignature} en la respuesta`
+    case 'evaluation':
+      return `la respuesta contiene la expresión evaluada (${payload.evaluatesTo})`
+    case 'response-diff':
+      return 'devolvió datos que la petición de referencia no devolvía'
+    case 'timing':
+      return `respuesta en ${response.latencyMs} ms frente a ${baseline.latencyMs} ms de referencia`
+  }
+}
+
+/** Envía una petición del fuzzer; null si falla por motivos ajenos al payload */
+async function sendInjectionProbe(
+  http: AxiosInstance,
+  url: string,
+  headers: Record<string, string>,
+  query: string,
+  variables: Record<string, unknown>,
+  fieldName: string
+): Promise<ProbeResponse | null> {
+  const startedAt = Date.now()
+  try {
+    const response = await http.post<{
+      data?: Record<string, unknown> | null
+      errors?: readonly GraphQLError[]
+    }>(
+      url,
+      { query, variables },
+      {
+        headers,
+        validateStatus: () => true, // Los errores 4xx/5xx también se analizan
+      }
+    )
+    const fieldData = response.data?.data?.[fieldName]
+    return {
+      body:
+        typeof response.data === 'string'
+          ? response.data
+          : JSON.stringify(response.data ?? ''),
+      status: response.status,
+      hasData:
+        fieldData !== null &&
+        fieldData !== undefined &&
+        !(Array.isArray(fieldData) && fieldData.length === 0),
+      errorCount: response.data?.errors?.length ?? 0,
+      latencyMs: Date.now() - startedAt,
+    }
+  } catch (error) {
+    rethrowIfBudgetExceeded(error)
+    const errorMessage = getErrorMessage(error)
+    if (errorMessage.toLowerCase().includes('timeout')) {
+      // Un timeout cuenta como respuesta lenta para los payloads de tiempo
+      return {
+        body: '',
+        status: 0,
+        hasData: false,
+        errorCount: 0,
+        latencyMs: Date.now() - startedAt,
+      }
+    }
+    console.warn(
+      `[InjectionFuzzer] Petición fallida para ${fieldName}: ${errorMessage}`
+    )
+    return null
+  }
+}
+
+/** Payloads por categoría; los de tiempo usan el retardo configurado */
+function buildInjectionPayloads(delaySeconds: number): InjectionPayload[] {
+  const text: InjectableKind[] = ['string', 'url']
+  return [
+    { category: 'sql', value: "'", appliesTo: text },
+    { category: 'sql', value: '"', appliesTo: text },
+    {
+      category: 'sql',
+      value: "' OR '1'='1' -- ",
+      appliesTo: text,
+      differential: true,
+    },
+    {
+      category: 'sql',
+      value: `' OR SLEEP(${delaySeconds})-- -`,
+      appliesTo: text,
+      delaySeconds,
+    },
+    {
+      category: 'sql',
+      value: `'; SELECT pg_sleep(${delaySeconds})--`,
+      appliesTo: text,
+      delaySeconds,
+    },
+    {
+      category: 'nosql',
+      value: "' || '1'=='1",
+      appliesTo: text,
+      differential: true,
+    },
+    {
+      category: 'nosql',
+      value: { $ne: null },
+      appliesTo: ['json'],
+      differential: true,
+    },
+    {
+      category: 'nosql',
+      value: { $gt: '' },
+      appliesTo: ['json'],
+      differential: true,
+    },
+    {
+      category: 'nosql',
+      value: { $where: `sleep(${delaySeconds * 1000}) || true` },
+      appliesTo: ['json'],
+      delaySeconds,
+    },
+    { category: 'command', value: ';id', appliesTo: text },
+    { category: 'command', value: '|id', appliesTo: text },
+    { category: 'command', value: '$(id)', appliesTo: text },
+    {
+      category: 'command',
+      value: `;sleep ${delaySeconds}`,
+      appliesTo: text,
+      delaySeconds,
+    },
+    {
+      category: 'ssrf',
+      value: 'http://169.254.169.254/latest/meta-data/',
+      appliesTo: ['url'],
+    },
+    { category: 'ssrf', value: 'file:///etc/passwd', appliesTo: ['url'] },
+    { category: 'ssrf', value: 'http://127.0.0.1:22/', appliesTo: ['url'] },
+    {
+      category: 'template',
+      value: '{{1337*7}}',
+      appliesTo: text,
+      evaluatesTo: TEMPLATE_EXPRESSION_RESULT,
+    },
+    {
+      category: 'template',
+      value: '${1337*7}',
+      appliesTo: text,
+      evaluatesTo: TEMPLATE_EXPRESSION_RESULT,
+    },
+    {
+      category: 'template',
+      value: '<%= 1337*7 %>',
+      appliesTo: text,
+      evaluatesTo: TEMPLATE_EXPRESSION_RESULT,
+    },
+    {
+      category: 'template',
+      value: '#{1337*7}',
+      appliesTo: text,
+      evaluatesTo: TEMPLATE_EXPRESSION_RESULT,
+    },
+  ]
+}
+
+/** Busca en los campos raíz los argumentos (y campos de inputs) de texto, URL o JSON */
+function findInjectableArguments(schema: GraphQLSchema): InjectableArgument[] {
+  const injectable: InjectableArgument[] = []
+  const collect = (
+    operation: 'query' | 'mutation',
+    fieldName: string,
+    type: GraphQLInputType,
+    path: (string | number)[],
+    depth: number
+  ) => {
+    const nullable = getNullableType(type)
+    if (isListType(nullable)) {
+      collect(operation, fieldName, nullable.ofType, [...path, 0], depth)
+      return
+    }
+    if (isInputObjectType(nullable)) {
+      if (depth >= MAX_INPUT_OBJECT_DEPTH) return
+      for (const inputField of Object.values(nullable.getFields())) {
+        collect(
+          operation,
+          fieldName,
+          inputField.type,
+          [...path, inputField.name],
+          depth + 1
+        )
+      }
+      return
+    }
+    if (!isScalarType(nullable)) return
+    const kind = classifyScalar(nullable.name, String(path[path.length - 1]))
+    if (kind) {
+      injectable.push({
+        operation,
+        fieldName,
+        path,
+        typeName: nullable.name,
+        kind,
+      })
+    }
+  }
+
+  for (const operation of ['query', 'mutation'] as const) {
+    const rootType =
+      operation === 'query' ? schema.getQueryType() : schema.getMutationType()
+    for (const field of Object.values(rootType?.getFields() ?? {})) {
+      for (const arg of field.args) {
+        collect(operation, field.name, arg.type, [arg.name], 0)
+      }
+    }
+  }
+  return injectable
+}
+
+function classifyScalar(
+  typeName: string,
+  argumentName: string
+): InjectableKind | null {
+  if (typeName === 'String' || typeName === 'ID') {
+    return URL_ARGUMENT_PATTERN.test(argumentName) ? 'url' : 'string'
+  }
+  if (['Int', 'Float', 'Boolean'].includes(typeName)) return null
+  if (/json|object|map/i.test(typeName)) return 'json'
+  if (/url|uri/i.test(typeName)) return 'url'
+  if (NON_TEXT_SCALAR_PATTERN.test(typeName)) return null
+  return 'string'
+}
+
+/** Copia las variables sustituyendo el valor en la ruta indicada */
+function setValueAtPath(
+  source: Record<string, unknown>,
+  path: (string | number)[],
+  value: unknown
+): Record<string, unknown> {
+  const copy = JSON.parse(JSON.stringify(source)) as Record<string, unknown>
+  let current: Record<string | number, unknown> = copy
+  path.forEach((key, index) => {
+    if (index === path.length - 1) {
+      current[key] = value
+      return
+    }
+    const next = current[key]
+    if (!next || typeof next !== 'object') {
+      current[key] = typeof path[index + 1] === 'number' ? [] : {}
+    }
+    current = current[key] as Record<string | number, unknown>
+  })
+  return copy
+}
@@ -0,0 +1,157 @@
+import type {
+  ScanResult,
+  SkipReason,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+
+export const TOOL_NAME = 'GraphQL Sentinel'
+export const TOOL_VERSION = '1.0.0'
+
+export type Severity = VulnerabilityFinding['severity']
+
+// De mayor a menor severidad
+export const SEVERITIES: Severity[] = [
+  'Critical',
+  'High',
+  'Medium',
+  'Low',
+  'Info',
+]
+
+// Pasos del motor que no son checks registrados pero pueden generar hallazgos
+const STEP_DESCRIPTIONS: Record<string, string> = {
+  connectivity: 'Conectividad con el endpoint',
+  schema: 'Obtención del schema',
+  schemaReconstruction: 'Reconstrucción del schema por sugerencias',
+  disclosure: 'Fugas de información en las respuestas',
+  scan: 'Escaneo',
+}
+
+export interface ReportedCheck {
+  id: string
+  description: string
+  findings: VulnerabilityFinding[]
+  skipReason?: SkipReason
+}
+
+/** Hallazgos ordenados de mayor a menor severidad */
+export function sortFindings(
+  findings: VulnerabilityFinding[]
+): VulnerabilityFinding[] {
+  return [...findings].sort(
+    (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+  )
+}
+
+export function countBySeverity(
+  findings: VulnerabilityFinding[]
+): Record<Severity, number> {
+  const counts = Object.fromEntries(SEVERITIES.map((s) => [s, 0])) as Record<
+    Severity,
+    number
+  >
+  for (const finding of findings) counts[finding.severity]++
+  return counts
+}
+
+/** Severidad más alta de la lista, o undefined si está vacía */
+export function highestSeverity(
+  findings: VulnerabilityFinding[]
+): Severity | undefined {
+  return SEVERITIES.find((s) => findings.some((f) => f.severity === s))
+}
+
+/**
+ * Checks del escaneo con sus hallazgos: los registrados en el motor más los
+ * pasos (schema, disclosure...) que generaron hallazgos.
+ */
+export function listReportedChecks(result: ScanResult): ReportedCheck[] {
+  const checks = new Map<string, ReportedCheck>()
+  for (const check of result.checks ?? []) {
+    checks.set(check.id, {
+      id: check.id,
+      description: check.description,
+      findings: [],
+    })
+  }
+  for (const finding of result.findings) {
+    const id = finding.check ?? 'scan'
+    let check = checks.get(id)
+    if (!check) {
+      check = { id, description: STEP_DESCRIPTIONS[id] ?? id, findings: [] }
+      checks.set(id, check)
+    }
+    check.findings.push(finding)
+  }
+  // Los omitidos sin campo son chequeos completos que no se ejecutaron
+  for (const skipped of result.skippedOperations ?? []) {
+    const check = checks.get(skipped.check)
+    if (!skipped.fieldName && check && !check.skipReason) {
+      check.skipReason = skipped.reason
+    }
+  }
+  return [...checks.values()]
+}
+
+/** Identificador estable a partir de un texto (sin acentos ni símbolos) */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/** Las fechas llegan como Date desde el motor o como texto desde JSON/BD */
+export function toIsoDate(date?: Date | string): string | undefined {
+  return date ? new Date(date).toISOString() : undefined
+}
+
+/** Duración del escaneo en segundos */
+export function scanDurationSeconds(result: ScanResult): number {
+  if (!result.startedAt || !result.completedAt) return 0
+  return (
+    (new Date(result.completedAt).getTime() -
+      new Date(result.startedAt).getTime()) /
+    1000
+  )
+}
+
+export function formatEvidence(evidence: unknown): string {
+  return JSON.stringify(evidence, null, 2)
+}
+
+/** Clasificación legible del hallazgo (ej: ['BOLA', 'CWE-639', 'OWASP API1:2023']) */
+export function describeClassification(
+  finding: VulnerabilityFinding
+): string[] {
+  return [
+    finding.category,
+    finding.cwe,
+    finding.owasp ? `OWASP ${finding.owasp}` : undefined,
+    finding.confidence ? `Confianza ${finding.confidence}` : undefined,
+  ].filter((label): label is string => !!label)
+}
+
+/** Operación afectada (ej: "query user(id) [alice -> bob]") */
+export function describeLocation(
+  location: VulnerabilityFinding['location']
+): string | undefined {
+  if (!location?.operation && !location?.field) return undefined
+  const target = [location.operation, location.field].filter(Boolean).join(' ')
+  const argument = location.argument ? `(${location.argument})` : ''
+  const roles = location.attacker
+    ? ` [${location.attacker}${location.victim ? ` -> ${location.victim}` : ''}]`
+    : ''
+  return `${target}${argument}${roles}`
+}
@@ -0,0 +1,124 @@
+import type {
+  ScanResult,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import {
+  SEVERITIES,
+  Severity,
+  TOOL_NAME,
+  countBySeverity,
+  describeClassification,
+  describeLocation,
+  escapeXml,
+  formatEvidence,
+  sortFindings,
+  toIsoDate,
+} from './common'
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  Critical: '#7b1fa2',
+  High: '#c62828',
+  Medium: '#ef6c00',
+  Low: '#f9a825',
+  Info: '#546e7a',
+}
+
+// Estilos embebidos: el informe es un único fichero sin recursos externos
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #212121; padding: 0 1rem; }
+h1 { margin-bottom: 0.25rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #ddd; padding: 0.35rem 0.75rem; text-align: left; }
+.meta td:first-child { font-weight: 600; }
+.badge { color: #fff; border-radius: 4px; padding: 0.1rem 0.5rem; font-size: 0.85rem; font-weight: 600; }
+.finding { border: 1px solid #ddd; border-left-width: 6px; border-radius: 4px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.finding h3 { margin: 0 0 0.5rem; font-size: 1.05rem; }
+.detail { color: #616161; font-size: 0.9rem; }
+pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; font-size: 0.8rem; }
+.error { color: #c62828; }
+`
+
+/** Informe HTML autocontenido (sin scripts ni recursos externos) */
+export function renderHtml(result: ScanResult): string {
+  const counts = countBySeverity(result.findings)
+  const metaRows: [string, string | undefined][] = [
+    ['Target', result.target.url],
+    ['Estado', result.status],
+    ['Escaneo', result.scanId],
+    ['Inicio', toIsoDate(result.startedAt)],
+    ['Fin', toIsoDate(result.completedAt)],
+    ['Peticiones', result.requestCount?.toString()],
+    [
+      'Schema',
+      result.schemaSource
+        ? `${result.schemaSource.kind}${result.schemaSource.location ? ` (${result.schemaSource.location})` : ''}`
+        : undefined,
+    ],
+  ]
+
+  const findings = sortFindings(result.findings).map(renderFinding).join('\n')
+
+  const skipped = result.skippedOperations?.length
+    ? `<h2>Omitidos por la política de escaneo</h2>
+<table>
+<tr><th>Motivo</th><th>Check</th><th>Operación</th></tr>
+${result.skippedOperations
+  .map(
+    (s) =>
+      `<tr><td>${escapeXml(s.reason)}</td><td>${escapeXml(s.check)}</td><td>${s.fieldName ? escapeXml(`${s.operation} ${s.fieldName}`) : '—'}</td></tr>`
+  )
+  .join('\n')}
+</table>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(`${TOOL_NAME} - ${result.target.url}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Informe de ${escapeXml(TOOL_NAME)}</h1>
+<table class="meta">
+${metaRows
+  .filter(([, value]) => value !== undefined)
+  .map(
+    ([label, value]) =>
+      `<tr><td>${label}</td><td>${escapeXml(value as string)}</td></tr>`
+  )
+  .join('\n')}
+</table>
+${result.error ? `<p class="error">Error: ${escapeXml(result.error)}</p>` : ''}
+<h2>Resumen</h2>
+<table>
+<tr>${SEVERITIES.map((s) => `<th>${badge(s)}</th>`).join('')}</tr>
+<tr>${SEVERITIES.map((s) => `<td>${counts[s]}</td>`).join('')}</tr>
+</table>
+<h2>Hallazgos (${result.findings.length})</h2>
+${findings || '<p>No se encontraron vulnerabilidades con los chequeos actuales.</p>'}
+${skipped}
+</body>
+</html>
+`
+}
+
+function renderFinding(finding: VulnerabilityFinding): string {
+  const classification = describeClassification(finding)
+  const location = describeLocation(finding.location)
+  return `<div class="finding" style="border-left-color: ${SEVERITY_COLORS[finding.severity]}">
+<h3>${badge(finding.severity)} ${escapeXml(finding.description)}</h3>
+<p>${escapeXml(finding.recommendation)}</p>
+${finding.check ? `<p class="detail">Check: <code>${escapeXml(finding.check)}</code></p>` : ''}
+${classification.length ? `<p class="detail">Clasificación: ${escapeXml(classification.join(', '))}</p>` : ''}
+${location ? `<p class="detail">Operación: <code>${escapeXml(location)}</code></p>` : ''}
+${finding.occurrences?.length ? `<p class="detail">Apariciones: ${finding.occurrences.length}</p>` : ''}
+${finding.requestIds?.length ? `<p class="detail">Peticiones: ${escapeXml(finding.requestIds.join(', '))}</p>` : ''}
+${finding.reproduction ? `<details><summary>Reproducción</summary><pre>${escapeXml(finding.reproduction.curl)}</pre></details>` : ''}
+${finding.evidence ? `<details><summary>Evidencia</summary><pre>${escapeXml(formatEvidence(finding.evidence))}</pre></details>` : ''}
+</div>`
+}
+
+function badge(severity: Severity): string {
+  return `<span class="badge" style="background: ${SEVERITY_COLORS[severity]}">${severity}</span>`
+}
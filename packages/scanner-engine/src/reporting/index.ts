@@ -0,0 +1,66 @@
+import type { ScanResult } from '@graphql-sentinel/shared-types'
+import { renderSarif } from './sarif'
+import { renderJunit } from './junit'
+import { renderHtml } from './html'
+import { renderMarkdown } from './markdown'
+
+export { describeClassification, describeLocation } from './common'
+
+export type ReportFormat = 'sarif' | 'junit' | 'html' | 'markdown' | 'json'
+
+interface ReportRenderer {
+  extensions: string[] // Para deducir el formato del fichero de salida
+  contentType: string
+  render(result: ScanResult): string
+}
+
+const RENDERERS: Record<ReportFormat, ReportRenderer> = {
+  sarif: {
+    extensions: ['.sarif', '.sarif.json'],
+    contentType: 'application/sarif+json',
+    render: renderSarif,
+  },
+  junit: {
+    extensions: ['.xml'],
+    contentType: 'application/xml',
+    render: renderJunit,
+  },
+  html: {
+    extensions: ['.html', '.htm'],
+    contentType: 'text/html; charset=utf-8',
+    render: renderHtml,
+  },
+  markdown: {
+    extensions: ['.md', '.markdown'],
+    contentType: 'text/markdown; charset=utf-8',
+    render: renderMarkdown,
+  },
+  json: {
+    extensions: ['.json'],
+    contentType: 'application/json',
+    render: (result) => JSON.stringify(result, null, 2),
+  },
+}
+
+export const REPORT_FORMATS = Object.keys(RENDERERS) as ReportFormat[]
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && value in RENDERERS
+}
+
+/** Genera el informe del escaneo en el formato indicado */
+export function renderReport(result: ScanResult, format: ReportFormat): string {
+  return RENDERERS[format].render(result)
+}
+
+export function getReportContentType(format: ReportFormat): string {
+  return RENDERERS[format].contentType
+}
+
+/** Deduce el formato por la extensión del fichero (.sarif antes que .json) */
+export function inferReportFormat(filePath: string): ReportFormat | undefined {
+  const name = filePath.toLowerCase()
+  return REPORT_FORMATS.find((format) =>
+    RENDERERS[format].extensions.some((extension) => name.endsWith(extension))
+  )
+}
@@ -0,0 +1,88 @@
+import type { ScanResult } from '@graphql-sentinel/shared-types'
+import {
+  ReportedCheck,
+  TOOL_NAME,
+  escapeXml,
+  highestSeverity,
+  listReportedChecks,
+  scanDurationSeconds,
+  sortFindings,
+  toIsoDate,
+} from './common'
+
+/**
+ * Informe JUnit XML: cada check es un caso de prueba que falla si tiene
+ * hallazgos (los Info solo se listan) y se marca como omitido si no se ejecutó.
+ */
+export function renderJunit(result: ScanResult): string {
+  const checks = listReportedChecks(result)
+  const failing = checks.filter((check) => failingFindings(check).length > 0)
+  const skipped = checks.filter(
+    (check) => check.skipReason && check.findings.length === 0
+  )
+  const errors = result.status === 'Failed' ? 1 : 0
+  const time = scanDurationSeconds(result).toFixed(3)
+  const counters = `tests="${checks.length + errors}" failures="${failing.length}" errors="${errors}" skipped="${skipped.length}" time="${time}"`
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(TOOL_NAME)}" ${counters}>`,
+    `  <testsuite name="${escapeXml(result.target.url)}" ${counters}${result.startedAt ? ` timestamp="${toIsoDate(result.startedAt)}"` : ''}>`,
+    '    <properties>',
+    `      <property name="scanId" value="${escapeXml(result.scanId)}"/>`,
+    `      <property name="status" value="${result.status}"/>`,
+    ...(result.requestCount !== undefined
+      ? [`      <property name="requestCount" value="${result.requestCount}"/>`]
+      : []),
+    '    </properties>',
+    ...checks.map(renderTestCase),
+  ]
+  if (result.status === 'Failed') {
+    lines.push(
+      '    <testcase classname="graphql-sentinel" name="scan">',
+      `      <error message="${escapeXml(result.error ?? 'Escaneo fallido')}"/>`,
+      '    </testcase>'
+    )
+  }
+  lines.push('  </testsuite>', '</testsuites>', '')
+  return lines.join('\n')
+}
+
+function renderTestCase(check: ReportedCheck): string {
+  const open = `    <testcase classname="graphql-sentinel.${escapeXml(check.id)}" name="${escapeXml(`${check.id}: ${check.description}`)}">`
+  const failures = failingFindings(check)
+  if (failures.length > 0) {
+    const details = sortFindings(failures)
+      .map(
+        (f) =>
+          `[${f.severity}] ${f.description}\n  -> ${f.recommendation}${f.requestIds?.length ? `\n  -> Peticiones: ${f.requestIds.join(', ')}` : ''}`
+      )
+      .join('\n')
+    return [
+      open,
+      `      <failure message="${failures.length} hallazgo(s), severidad máxima ${highestSeverity(failures)}" type="${highestSeverity(failures)}">${escapeXml(details)}</failure>`,
+      ...renderInfoOutput(check),
+      '    </testcase>',
+    ].join('\n')
+  }
+  if (check.skipReason && check.findings.length === 0) {
+    return [
+      open,
+      `      <skipped message="${escapeXml(check.skipReason)}"/>`,
+      '    </testcase>',
+    ].join('\n')
+  }
+  return [open, ...renderInfoOutput(check), '    </testcase>'].join('\n')
+}
+
+/** Los hallazgos Info son informativos: no hacen fallar el caso */
+function failingFindings(check: ReportedCheck) {
+  return check.findings.filter((f) => f.severity !== 'Info')
+}
+
+function renderInfoOutput(check: ReportedCheck): string[] {
+  const info = check.findings.filter((f) => f.severity === 'Info')
+  if (info.length === 0) return []
+  const text = info.map((f) => `[Info] ${f.description}`).join('\n')
+  return [`      <system-out>${escapeXml(text)}</system-out>`]
+}
@@ -0,0 +1,128 @@
+import type { ScanResult } from '@graphql-sentinel/shared-types'
+import {
+  SEVERITIES,
+  TOOL_NAME,
+  countBySeverity,
+  describeClassification,
+  describeLocation,
+  formatEvidence,
+  sortFindings,
+  toIsoDate,
+} from './common'
+
+/** Informe Markdown (ej: para adjuntar a un ticket o a una PR) */
+export function renderMarkdown(result: ScanResult): string {
+  const counts = countBySeverity(result.findings)
+  const lines = [
+    `# Informe de ${TOOL_NAME}`,
+    '',
+    `- **Target:** ${result.target.url}`,
+    `- **Estado:** ${result.status}`,
+    `- **Escaneo:** \`${result.scanId}\``,
+  ]
+  if (result.startedAt) {
+    lines.push(`- **Inicio:** ${toIsoDate(result.startedAt)}`)
+  }
+  if (result.completedAt) {
+    lines.push(`- **Fin:** ${toIsoDate(result.completedAt)}`)
+  }
+  if (result.requestCount !== undefined) {
+    lines.push(`- **Peticiones:** ${result.requestCount}`)
+  }
+  if (result.schemaSource) {
+    lines.push(
+      `- **Schema:** ${result.schemaSource.kind}${result.schemaSource.location ? ` (${result.schemaSource.location})` : ''}`
+    )
+  }
+  if (result.error) lines.push(`- **Error:** ${result.error}`)
+
+  lines.push(
+    '',
+    '## Resumen',
+    '',
+    '| Severidad | Hallazgos |',
+    '| --- | ---: |'
+  )
+  for (const severity of SEVERITIES) {
+    lines.push(`| ${severity} | ${counts[severity]} |`)
+  }
+
+  lines.push('', '## Hallazgos', '')
+  if (result.findings.length === 0) {
+    lines.push('No se encontraron vulnerabilidades con los chequeos actuales.')
+  }
+  sortFindings(result.findings).forEach((finding, index) => {
+    lines.push(
+      `### ${index + 1}. [${finding.severity}] ${finding.description}`,
+      '',
+      `**Recomendación:** ${finding.recommendation}`,
+      ''
+    )
+    const classification = describeClassification(finding)
+    const location = describeLocation(finding.location)
+    const meta = [
+      finding.check ? `**Check:** \`${finding.check}\`` : '',
+      classification.length
+        ? `**Clasificación:** ${classification.join(', ')}`
+        : '',
+      location ? `**Operación:** \`${location}\`` : '',
+      finding.occurrences?.length
+        ? `**Apariciones:** ${finding.occurrences.length}`
+        : '',
+      finding.requestIds?.length
+        ? `**Peticiones:** ${finding.requestIds.join(', ')}`
+        : '',
+    ].filter(Boolean)
+    if (meta.length > 0) lines.push(meta.join(' · '), '')
+    if (finding.reproduction) {
+      lines.push(
+        '<details><summary>Reproducción</summary>',
+        '',
+        codeBlock(finding.reproduction.curl, 'sh'),
+        '',
+        '</details>',
+        ''
+      )
+    }
+    if (finding.evidence) {
+      lines.push(
+        '<details><summary>Evidencia</summary>',
+        '',
+        codeBlock(formatEvidence(finding.evidence), 'json'),
+        '',
+        '</details>',
+        ''
+      )
+    }
+  })
+
+  if (result.skippedOperations?.length) {
+    lines.push(
+      '## Omitidos por la política de escaneo',
+      '',
+      '| Motivo | Check | Operación |',
+      '| --- | --- | --- |'
+    )
+    for (const skipped of result.skippedOperations) {
+      lines.push(
+        `| ${skipped.reason} | ${escapeCell(skipped.check)} | ${skipped.fieldName ? escapeCell(`${skipped.operation} ${skipped.fieldName}`) : '—'} |`
+      )
+    }
+    lines.push('')
+  }
+  return lines.join('\n')
+}
+
+/** Bloque de código con una valla más larga que cualquier secuencia de ` del contenido */
+function codeBlock(content: string, language: string): string {
+  const longest = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length)
+  )
+  const fence = '`'.repeat(longest + 1)
+  return `${fence}${language}\n${content}\n${fence}`
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|')
+}
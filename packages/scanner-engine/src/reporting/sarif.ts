@@ -0,0 +1,145 @@
+import type {
+  ScanResult,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import {
+  Severity,
+  TOOL_NAME,
+  TOOL_VERSION,
+  slugify,
+  sortFindings,
+  toIsoDate,
+} from './common'
+
+const SARIF_VERSION = '2.1.0'
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  Critical: 'error',
+  High: 'error',
+  Medium: 'warning',
+  Low: 'note',
+  Info: 'note',
+}
+// Escala 0-10 que usan los paneles de code scanning (propiedad security-severity)
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  Critical: '9.5',
+  High: '8.0',
+  Medium: '5.5',
+  Low: '3.0',
+  Info: '0.0',
+}
+
+interface SarifRule {
+  id: string
+  name: string
+  shortDescription: { text: string }
+  help: { text: string }
+  defaultConfiguration: { level: string }
+  properties: {
+    tags: string[]
+    'security-severity': string
+    precision?: string
+  }
+}
+
+/** Informe SARIF 2.1.0: una regla por tipo de hallazgo y un resultado por hallazgo */
+export function renderSarif(result: ScanResult): string {
+  const rules = new Map<string, SarifRule>()
+  const results = sortFindings(result.findings).map((finding) => {
+    const ruleId = ruleIdFor(finding)
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, {
+        id: ruleId,
+        name: finding.description,
+        shortDescription: { text: finding.description },
+        help: { text: finding.recommendation },
+        defaultConfiguration: { level: SARIF_LEVELS[finding.severity] },
+        properties: {
+          tags: ruleTags(finding),
+          'security-severity': SECURITY_SEVERITY[finding.severity],
+          ...(finding.confidence
+            ? { precision: finding.confidence.toLowerCase() }
+            : {}),
+        },
+      })
+    }
+    return {
+      ruleId,
+      ruleIndex: [...rules.keys()].indexOf(ruleId),
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: `${finding.description}. ${finding.recommendation}` },
+      ...(finding.fingerprint
+        ? { partialFingerprints: { 'graphqlSentinel/v1': finding.fingerprint } }
+        : {}),
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: result.target.url } },
+        },
+      ],
+      properties: {
+        severity: finding.severity,
+        'security-severity': SECURITY_SEVERITY[finding.severity],
+        check: finding.check,
+        category: finding.category,
+        cwe: finding.cwe,
+        owasp: finding.owasp,
+        confidence: finding.confidence,
+        location: finding.location,
+        reproduction: finding.reproduction,
+        occurrences: finding.occurrences?.length,
+        requestIds: finding.requestIds,
+        evidence: finding.evidence,
+      },
+    }
+  })
+
+  const sarif = {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            rules: [...rules.values()],
+          },
+        },
+        invocations: [
+          {
+            executionSuccessful: result.status === 'Completed',
+            startTimeUtc: toIsoDate(result.startedAt),
+            endTimeUtc: toIsoDate(result.completedAt),
+            ...(result.error
+              ? {
+                  toolExecutionNotifications: [
+                    { level: 'error', message: { text: result.error } },
+                  ],
+                }
+              : {}),
+          },
+        ],
+        properties: { scanId: result.scanId, target: result.target.url },
+        results,
+      },
+    ],
+  }
+  return JSON.stringify(sarif, null, 2)
+}
+
+/** Regla del hallazgo: check + título sin el campo afectado (ej: 'injection/posible-inyeccion-sql') */
+function ruleIdFor(finding: VulnerabilityFinding): string {
+  const title = finding.description.replace(/\s*\([^)]*\)\s*$/, '')
+  return `${finding.check ?? 'scan'}/${slugify(title)}`
+}
+
+/** Etiquetas de la regla; los CWE siguen la convención external/cwe/cwe-N */
+function ruleTags(finding: VulnerabilityFinding): string[] {
+  return [
+    'security',
+    'graphql',
+    ...(finding.category ? [finding.category] : []),
+    ...(finding.cwe ? [`external/cwe/${finding.cwe.toLowerCase()}`] : []),
+    ...(finding.owasp ? [`owasp-api/${finding.owasp}`] : []),
+  ]
+}
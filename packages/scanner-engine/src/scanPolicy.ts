@@ -0,0 +1,104 @@
+import type {
+  ScanPolicyConfig,
+  SkippedOperation,
+  SkipReason,
+} from '@graphql-sentinel/shared-types'
+import { matchesOperationPattern } from './utils'
+import { RootOperation } from './types'
+
+// Mutations que por su nombre suelen destruir o mover datos
+const DESTRUCTIVE_MUTATION_PATTERN =
+  /delete|remove|destroy|drop|purge|wipe|cancel|transfer|revoke|archive|reset/i
+
+/** Se lanza cuando el escaneo agota el presupuesto de peticiones */
+export class RequestBudgetExceededError extends Error {
+  constructor(maxRequests: number) {
+    super(`Presupuesto de peticiones agotado (${maxRequests}).`)
+    this.name = 'RequestBudgetExceededError'
+  }
+}
+
+export interface ScanPolicy {
+  /** Indica si la operación puede ejecutarse; si no, la registra como omitida */
+  allows(check: string, operation: RootOperation, fieldName: string): boolean
+  /** Registra un chequeo completo que no se ejecutó */
+  recordSkippedCheck(check: string, reason: SkipReason): void
+  isBudgetExhausted(): boolean
+  countRequest(): void
+  readonly requestCount: number
+  readonly skippedOperations: SkippedOperation[]
+}
+
+/** Crea la política del escaneo a partir de la configuración del target */
+export function createScanPolicy(config: ScanPolicyConfig = {}): ScanPolicy {
+  const skippedOperations: SkippedOperation[] = []
+  const skippedKeys = new Set<string>()
+  let requestCount = 0
+
+  const record = (skipped: SkippedOperation) => {
+    const key = `${skipped.check}:${skipped.operation}:${skipped.fieldName}`
+    if (skippedKeys.has(key)) return
+    skippedKeys.add(key)
+    skippedOperations.push(skipped)
+    console.log(
+      `[ScanPolicy] Omitido (${skipped.reason}): ${skipped.check}${skipped.fieldName ? ` ${skipped.operation} ${skipped.fieldName}` : ''}`
+    )
+  }
+
+  const resolveSkipReason = (
+    operation: RootOperation,
+    fieldName: string
+  ): SkipReason | null => {
+    const matches = (patterns?: string[]) =>
+      patterns?.some((p) => matchesOperationPattern(p, operation, fieldName))
+    if (operation === 'mutation' && config.readOnly) return 'read-only'
+    if (matches(config.denyOperations)) return 'denied'
+    if (config.allowOperations?.length && !matches(config.allowOperations)) {
+      return 'not-allowed'
+    }
+    if (
+      operation === 'mutation' &&
+      !config.allowDestructiveMutations &&
+      DESTRUCTIVE_MUTATION_PATTERN.test(fieldName)
+    ) {
+      return 'destructive'
+    }
+    return null
+  }
+
+  return {
+    allows(check, operation, fieldName) {
+      const reason = this.isBudgetExhausted()
+        ? 'request-budget'
+        : resolveSkipReason(operation, fieldName)
+      if (!reason) return true
+      record({ check, operation, fieldName, reason })
+      return false
+    },
+    recordSkippedCheck(check, reason) {
+      record({ check, reason })
+    },
+    isBudgetExhausted() {
+      return (
+        config.maxRequests !== undefined && requestCount >= config.maxRequests
+      )
+    },
+    countRequest() {
+      if (this.isBudgetExhausted()) {
+        throw new RequestBudgetExceededError(config.maxRequests as number)
+      }
+      requestCount++
+    },
+    get requestCount() {
+      return requestCount
+    },
+    get skippedOperations() {
+      return skippedOperations
+    },
+  }
+}
+
+/** Relanza el error si es de presupuesto agotado (para cortar el chequeo en curso) */
+export function rethrowIfBudgetExceeded(error: unknown): void {
+  if (error instanceof RequestBudgetExceededError) throw error
+}
@@ -1,6 +1,9 @@
-import axios from 'axios'
+import axios, { AxiosInstance } from 'axios'
+import * as fs from 'fs'
+import * as path from 'path'
 import {
   buildClientSchema,
+  buildSchema,
   getIntrospectionQuery,
   IntrospectionQuery,
   GraphQLError,
@@ -8,24 +11,143 @@ import {
 } from 'graphql'
 import type {
   ScanTarget,
+  SchemaSource,
   VulnerabilityFinding,
 } from '@graphql-sentinel/shared-types'
-import { createFinding, getErrorMessage } from './utils'
+import { createFinding, getErrorMessage, buildReproduction } from './utils'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
+import { SchemaFetchResult } from './types'
 
-/** Intenta obtener el schema vía Introspection o desde config */
+/** Obtiene el schema desde target.schema (archivo/URL) y, si no, vía Introspection */
 export async function getSchema(
   target: ScanTarget,
   headers: Record<string, string>,
-  findings: VulnerabilityFinding[]
+  findings: VulnerabilityFinding[],
+  http: AxiosInstance
+): Promise<SchemaFetchResult> {
+  if (target.schema) {
+    try {
+      console.log(
+        `[SchemaFetcher] Cargando schema configurado desde: ${target.schema}`
+      )
+      const loaded = await loadSchemaFromSource(target.schema, http)
+      console.log(
+        `[SchemaFetcher] Schema cargado correctamente (${loaded.source.kind}).`
+      )
+      return loaded
+    } catch (error) {
+      console.warn(
+        '[SchemaFetcher] No se pudo cargar el schema configurado:',
+        getErrorMessage(error)
+      )
+      findings.push(
+        createFinding(
+          'Info',
+          'Schema Configurado No Cargado',
+          `No se pudo cargar el schema desde '${target.schema}' (${getErrorMessage(error)}). Se intentará Introspection.`,
+          undefined,
+          { ...FINDING_CLASSES.scanError, confidence: 'High' }
+        )
+      )
+    }
+  }
+
+  const schema = await fetchSchemaViaIntrospection(
+    target,
+    headers,
+    findings,
+    http
+  )
+  return {
+    schema,
+    source: schema
+      ? { kind: 'introspection', location: target.url }
+      : { kind: 'none' },
+  }
+}
+
+/** Carga un schema desde un archivo local o una URL http(s) */
+export async function loadSchemaFromSource(
+  source: string,
+  http: AxiosInstance = axios
+): Promise<{ schema: GraphQLSchema; source: SchemaSource }> {
+  if (/^https?:\/\//i.test(source)) {
+    const response = await http.get<string>(source, {
+      responseType: 'text',
+      transformResponse: (data) => data, // Evita el parseo JSON automático
+    })
+    const { schema } = parseSchemaContent(response.data)
+    return { schema, source: { kind: 'url', location: source } }
+  }
+
+  const filePath = path.resolve(source)
+  const content = await fs.promises.readFile(filePath, 'utf-8')
+  const { schema, format } = parseSchemaContent(
+    content,
+    path.extname(filePath).toLowerCase() === '.json'
+      ? 'introspection'
+      : undefined
+  )
+  return {
+    schema,
+    source: {
+      kind: format === 'sdl' ? 'sdl-file' : 'introspection-file',
+      location: filePath,
+    },
+  }
+}
+
+/** Interpreta el contenido como SDL o como resultado JSON de introspection */
+export function parseSchemaContent(
+  content: string,
+  formatHint?: 'sdl' | 'introspection'
+): { schema: GraphQLSchema; format: 'sdl' | 'introspection' } {
+  const trimmed = content.trim()
+  const format =
+    formatHint ?? (trimmed.startsWith('{') ? 'introspection' : 'sdl')
+
+  if (format === 'sdl') {
+    return { schema: buildSchema(trimmed), format }
+  }
+
+  const parsed = JSON.parse(trimmed)
+  // Acepta tanto la respuesta completa ({ data: { __schema } }) como solo data
+  const introspection: IntrospectionQuery | undefined = parsed?.data?.__schema
+    ? parsed.data
+    : parsed?.__schema
+      ? parsed
+      : undefined
+  if (!introspection) {
+    throw new Error(
+      'El JSON no contiene un resultado de introspection válido (__schema).'
+    )
+  }
+  return { schema: buildClientSchema(introspection), format }
+}
+
+/** Intenta obtener el schema vía Introspection */
+async function fetchSchemaViaIntrospection(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  http: AxiosInstance
 ): Promise<GraphQLSchema | null> {
-  // TODO: Implementar carga desde target.schema (archivo/URL)
-  // Por ahora, solo intenta Introspection
+  const introspectionQuery = getIntrospectionQuery({ descriptions: false })
+  const reproduction = buildReproduction(target.url, headers, {
+    query: introspectionQuery,
+  })
+  // Sin CWE: que falle la introspection no es en sí una vulnerabilidad
+  const introspectionUnavailable = {
+    category: FINDING_CLASSES.introspection.category,
+    confidence: 'Medium' as const, // Puede ser un fallo de red y no un bloqueo
+    reproduction,
+  }
   try {
     console.log(
       '[SchemaFetcher] Intentando obtener schema vía Introspection...'
     )
-    const introspectionQuery = getIntrospectionQuery({ descriptions: false })
-    const response = await axios.post<{
+    const response = await http.post<{
       data?: IntrospectionQuery
       errors?: readonly GraphQLError[]
     }>(target.url, { query: introspectionQuery }, { headers, timeout: 15000 })
@@ -39,7 +161,9 @@ export async function getSchema(
         createFinding(
           'Info',
           'Introspection Query con Errores',
-          'La introspection query devolvió errores.'
+          'La introspection query devolvió errores.',
+          undefined,
+          { ...FINDING_CLASSES.introspection, confidence: 'Low', reproduction }
         )
       )
     }
@@ -50,7 +174,14 @@ export async function getSchema(
         createFinding(
           'Info',
           'Introspection Habilitada',
-          'La API permite introspection queries. Considera deshabilitarla en producción.'
+          'La API permite introspection queries. Considera deshabilitarla en producción.',
+          undefined,
+          {
+            ...FINDING_CLASSES.introspection,
+            confidence: 'High',
+            location: { operation: 'query', field: '__schema' },
+            reproduction,
+          }
         )
       )
       return schema
@@ -62,12 +193,15 @@ export async function getSchema(
         createFinding(
           'Low',
           'Introspection Deshabilitada o Fallida',
-          'No se pudo obtener el schema vía Introspection.'
+          'No se pudo obtener el schema vía Introspection.',
+          undefined,
+          introspectionUnavailable
         )
       )
       return null
     }
   } catch (error) {
+    rethrowIfBudgetExceeded(error)
     console.warn(
       '[SchemaFetcher] Falló el intento de Introspection:',
       getErrorMessage(error)
@@ -76,7 +210,9 @@ export async function getSchema(
       createFinding(
         'Low',
         'Introspection Deshabilitada o Fallida',
-        `No se pudo obtener el schema vía Introspection (${getErrorMessage(error)}).`
+        `No se pudo obtener el schema vía Introspection (${getErrorMessage(error)}).`,
+        undefined,
+        introspectionUnavailable
       )
     )
     return null
@@ -0,0 +1,535 @@
+import { AxiosInstance } from 'axios'
+import * as fs from 'fs'
+import * as path from 'path'
+import { buildSchema, GraphQLError, GraphQLSchema } from 'graphql'
+import type {
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { createFinding, getErrorMessage } from './utils'
+import { RequestBudgetExceededError } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+const DEFAULT_MAX_REQUESTS = 400
+const DEFAULT_MAX_DEPTH = 2
+const WORDS_PER_REQUEST = 40
+// Campo inexistente que se añade a cada sonda para que el documento nunca
+// pase la validación (y por tanto nunca se ejecute, ni siquiera una mutation)
+const SENTINEL_FIELD = '__sentinelProbe'
+const BUILTIN_SCALARS = ['String', 'Int', 'Float', 'Boolean', 'ID']
+
+/** Wordlist por defecto para descubrir campos cuando no hay introspection */
+export const DEFAULT_FIELD_WORDLIST = `
+  id name email username password token role roles status type title
+  description createdAt updatedAt me viewer user users account accounts
+  profile profiles node nodes edges pageInfo totalCount search post posts
+  comment comments order orders product products item items invoice
+  invoices payment payments document documents file files message messages
+  notification notifications setting settings config admin admins team
+  teams organization organizations project projects customer customers
+  address addresses owner author friends followers members permissions
+  session sessions apiKey apiKeys secret login logout signup register
+  refreshToken resetPassword changePassword verifyOtp createUser
+  updateUser deleteUser createOrder updateOrder deleteOrder upload health
+  version pedido pedidos documento documentos usuario usuarios perfil
+`
+  .trim()
+  .split(/\s+/)
+
+/** Wordlist por defecto para descubrir argumentos de un campo */
+export const DEFAULT_ARGUMENT_WORDLIST = `
+  id ids input data where filter first last after before limit offset page
+  pageSize orderBy sort query search email username password token code
+  name userId orderId type status
+`
+  .trim()
+  .split(/\s+/)
+
+interface ReconstructedField {
+  name: string
+  type?: string // Tipo completo tal como aparece en los mensajes (ej: '[User!]!')
+  args: Map<string, string | undefined>
+}
+
+interface ReconstructedType {
+  name: string
+  kind: 'object' | 'interface' | 'input' | 'enum' | 'scalar'
+  fields: Map<string, ReconstructedField>
+  possibleTypes: Set<string> // Implementaciones conocidas (solo interfaces)
+}
+
+interface ReconstructionState {
+  http: AxiosInstance
+  url: string
+  headers: Record<string, string>
+  fieldWords: string[]
+  argumentWords: string[]
+  maxRequests: number
+  requestsSent: number
+  suggestionsObserved: Set<string>
+  types: Map<string, ReconstructedType>
+}
+
+/** Reconstruye un schema parcial a partir de los mensajes "Did you mean ..." */
+export async function reconstructSchemaFromSuggestions(
+  target: ScanTarget,
+  headers: Record<string, string>,
+  findings: VulnerabilityFinding[],
+  http: AxiosInstance
+): Promise<GraphQLSchema | null> {
+  const config = target.schemaReconstruction
+  const state: ReconstructionState = {
+    http,
+    url: target.url,
+    headers,
+    fieldWords: loadWordlist(config?.wordlist, config?.wordlistPath),
+    argumentWords: DEFAULT_ARGUMENT_WORDLIST,
+    maxRequests: config?.maxRequests ?? DEFAULT_MAX_REQUESTS,
+    requestsSent: 0,
+    suggestionsObserved: new Set(),
+    types: new Map(),
+  }
+  const maxDepth = config?.maxDepth ?? DEFAULT_MAX_DEPTH
+
+  console.log(
+    `[SchemaReconstructor] Reconstruyendo schema vía sugerencias (${state.fieldWords.length} palabras)...`
+  )
+
+  try {
+    const roots: { operation: 'query' | 'mutation'; typeName: string }[] = []
+    for (const operation of ['query', 'mutation'] as const) {
+      const typeName = await probeTypeFields(state, operation, [])
+      if (typeName) roots.push({ operation, typeName })
+    }
+
+    // Recorre en anchura los tipos objeto alcanzables desde las raíces
+    const visited = new Set(roots.map((r) => r.typeName))
+    let frontier = roots.map((r) => ({
+      operation: r.operation,
+      typeName: r.typeName,
+      path: [] as string[],
+    }))
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: typeof frontier = []
+      for (const node of frontier) {
+        const type = state.types.get(node.typeName)
+        if (!type) continue
+        for (const field of type.fields.values()) {
+          const childTypeName = field.type && unwrapTypeName(field.type)
+          const childType = childTypeName && state.types.get(childTypeName)
+          if (!childType || !isCompositeKind(childType.kind)) continue
+          if (visited.has(childType.name)) continue
+          visited.add(childType.name)
+          const childPath = [...node.path, field.name]
+          await probeTypeFields(state, node.operation, childPath)
+          next.push({
+            operation: node.operation,
+            typeName: childType.name,
+            path: childPath,
+          })
+        }
+      }
+      frontier = next
+    }
+
+    if (state.suggestionsObserved.size > 0) {
+      findings.push(
+        createFinding(
+          'Medium',
+          'Sugerencias de Campos Habilitadas (Fuga de Schema)',
+          'La API devuelve sugerencias "Did you mean ..." en errores de validación, lo que permite reconstruir el schema aunque la introspection esté deshabilitada. Deshabilita las sugerencias en producción.',
+          {
+            suggestedNames: [...state.suggestionsObserved].slice(0, 50),
+            reconstructedTypes: [...state.types.values()]
+              .filter((t) => isCompositeKind(t.kind))
+              .map((t) => t.name),
+            requestsSent: state.requestsSent,
+          },
+          { ...FINDING_CLASSES.introspection, confidence: 'High' }
+        )
+      )
+    }
+
+    const queryRoot = roots.find((r) => r.operation === 'query')
+    const queryType = queryRoot && state.types.get(queryRoot.typeName)
+    if (!queryRoot || !queryType || queryType.fields.size === 0) {
+      console.warn(
+        '[SchemaReconstructor] No se pudieron descubrir campos del tipo Query.'
+      )
+      return null
+    }
+
+    const mutationRoot = roots.find((r) => r.operation === 'mutation')
+    const mutationType = mutationRoot && state.types.get(mutationRoot.typeName)
+    const sdl = buildSdl(
+      state,
+      queryRoot.typeName,
+      mutationType && mutationType.fields.size > 0
+        ? mutationType.name
+        : undefined
+    )
+    const schema = buildSchema(sdl, { assumeValidSDL: true })
+    console.log(
+      `[SchemaReconstructor] Schema parcial reconstruido: ${state.types.size} tipos, ${state.requestsSent} peticiones.`
+    )
+    return schema
+  } catch (error) {
+    console.warn(
+      '[SchemaReconstructor] Falló la reconstrucción del schema:',
+      getErrorMessage(error)
+    )
+    return null
+  }
+}
+
+/** Carga la wordlist configurada (array o archivo, una palabra por línea) */
+function loadWordlist(wordlist?: string[], wordlistPath?: string): string[] {
+  const words = new Set<string>(wordlist ?? [])
+  if (wordlistPath) {
+    try {
+      const content = fs.readFileSync(path.resolve(wordlistPath), 'utf-8')
+      for (const line of content.split(/\r?\n/)) {
+        const word = line.trim()
+        if (/^[_A-Za-z][_0-9A-Za-z]*$/.test(word)) words.add(word)
+      }
+    } catch (error) {
+      console.warn(
+        `[SchemaReconstructor] No se pudo leer la wordlist ${wordlistPath}:`,
+        getErrorMessage(error)
+      )
+    }
+  }
+  if (words.size === 0) DEFAULT_FIELD_WORDLIST.forEach((w) => words.add(w))
+  return [...words]
+}
+
+/**
+ * Descubre los campos del tipo alcanzado por `fieldPath` (vacío = raíz de la
+ * operación), su tipo y sus argumentos. Devuelve el nombre del tipo.
+ */
+async function probeTypeFields(
+  state: ReconstructionState,
+  operation: 'query' | 'mutation',
+  fieldPath: string[]
+): Promise<string | null> {
+  let typeName: string | null = null
+  const candidates = new Set<string>()
+  const rejected = new Set<string>()
+  const possibleTypes: string[] = []
+
+  const pending = [...state.fieldWords]
+  while (pending.length > 0) {
+    const batch = pending.splice(0, WORDS_PER_REQUEST)
+    const errors = await sendProbe(
+      state,
+      wrapSelection(operation, fieldPath, batch.join(' '))
+    )
+    if (!errors) return typeName
+    if (errors.some((e) => /not configured to execute/i.test(e.message))) {
+      return null // La API no tiene tipo Mutation
+    }
+    for (const error of errors) {
+      const unknownField = error.message.match(
+        /Cannot query field "(\w+)" on type "(\w+)"/
+      )
+      if (!unknownField) continue
+      typeName = unknownField[2]
+      rejected.add(unknownField[1])
+      if (error.message.includes('inline fragment')) {
+        // "Did you mean to use an inline fragment on ...?": es una interfaz
+        // (o unión) y las sugerencias son sus tipos concretos
+        possibleTypes.push(...parseSuggestions(error.message))
+        continue
+      }
+      for (const suggestion of parseSuggestions(error.message)) {
+        if (!rejected.has(suggestion)) {
+          candidates.add(suggestion)
+          state.suggestionsObserved.add(suggestion)
+        }
+      }
+    }
+    batch.filter((w) => !rejected.has(w)).forEach((w) => candidates.add(w))
+  }
+  rejected.forEach((w) => candidates.delete(w))
+  if (!typeName) return null
+
+  const type = ensureType(
+    state,
+    typeName,
+    possibleTypes.length > 0 ? 'interface' : 'object'
+  )
+  for (const name of possibleTypes) {
+    type.possibleTypes.add(name)
+    ensureType(state, name, 'object')
+  }
+  if (candidates.size === 0) return typeName
+  for (const name of candidates) {
+    if (!type.fields.has(name)) type.fields.set(name, { name, args: new Map() })
+  }
+
+  await probeFieldTypes(state, operation, fieldPath, type)
+  for (const field of type.fields.values()) {
+    await probeFieldArguments(state, operation, fieldPath, type, field)
+  }
+  return typeName
+}
+
+/** Determina el tipo de cada campo pidiéndolo con y sin sub-selección */
+async function probeFieldTypes(
+  state: ReconstructionState,
+  operation: 'query' | 'mutation',
+  fieldPath: string[],
+  type: ReconstructedType
+): Promise<void> {
+  const names = [...type.fields.keys()]
+  while (names.length > 0) {
+    const batch = names.splice(0, WORDS_PER_REQUEST / 2)
+    const selection = batch
+      .map((n, i) => `f${i}a: ${n} f${i}b: ${n} { __typename }`)
+      .join(' ')
+    const errors = await sendProbe(
+      state,
+      wrapSelection(operation, fieldPath, selection)
+    )
+    if (!errors) return
+    for (const error of errors) {
+      const objectField = error.message.match(
+        /Field "(\w+)" of type "([^"]+)" must have a selection of subfields/
+      )
+      const leafField = error.message.match(
+        /Field "(\w+)" must not have a selection since type "([^"]+)"/
+      )
+      const requiredArg = error.message.match(
+        /Field "(\w+)" argument "(\w+)" of type "([^"]+)" is required/
+      )
+      if (objectField) {
+        const field = type.fields.get(objectField[1])
+        if (field) field.type = objectField[2]
+        ensureType(state, unwrapTypeName(objectField[2]), 'object')
+      } else if (leafField) {
+        const field = type.fields.get(leafField[1])
+        if (field) field.type = leafField[2]
+        ensureType(state, unwrapTypeName(leafField[2]), 'scalar')
+      } else if (requiredArg) {
+        type.fields
+          .get(requiredArg[1])
+          ?.args.set(requiredArg[2], requiredArg[3])
+      }
+    }
+  }
+}
+
+/** Descubre los argumentos de un campo y, en lo posible, sus tipos */
+async function probeFieldArguments(
+  state: ReconstructionState,
+  operation: 'query' | 'mutation',
+  fieldPath: string[],
+  type: ReconstructedType,
+  field: ReconstructedField
+): Promise<void> {
+  const argWords = state.argumentWords.filter((w) => !field.args.has(w))
+  const subselection =
+    field.type &&
+    isCompositeKind(state.types.get(unwrapTypeName(field.type))?.kind)
+      ? ' { __typename }'
+      : ''
+
+  const unknown = new Set<string>()
+  const errors = await sendProbe(
+    state,
+    wrapSelection(
+      operation,
+      fieldPath,
+      `${field.name}(${argWords.map((w) => `${w}: 0`).join(', ')})${subselection}`
+    )
+  )
+  if (!errors) return
+  for (const error of errors) {
+    const unknownArg = error.message.match(
+      /Unknown argument "(\w+)" on field "(\w+)\.(\w+)"/
+    )
+    if (!unknownArg || unknownArg[3] !== field.name) continue
+    unknown.add(unknownArg[1])
+    for (const suggestion of parseSuggestions(error.message)) {
+      state.suggestionsObserved.add(suggestion)
+      if (!field.args.has(suggestion)) field.args.set(suggestion, undefined)
+    }
+  }
+  argWords
+    .filter((w) => !unknown.has(w) && !field.args.has(w))
+    .forEach((w) => field.args.set(w, undefined))
+  unknown.forEach((w) => field.args.delete(w))
+
+  // Un argumento por línea (a partir de la 2) para asociar cada error de valor
+  // a su argumento mediante error.locations
+  const untyped = [...field.args.entries()]
+    .filter(([, argType]) => !argType)
+    .map(([name]) => name)
+  if (untyped.length === 0) return
+  const query = [
+    `${selectionPrefix(operation, fieldPath)} ${field.name}(`,
+    ...untyped.map((name) => `${name}: {__sentinel: 0}`),
+    `)${subselection}${selectionSuffix(fieldPath)}`,
+  ].join('\n')
+  for (const error of (await sendProbe(state, query)) ?? []) {
+    const line = error.locations?.[0]?.line
+    const argName = line ? untyped[line - 2] : undefined
+    if (!argName) continue
+    const argType = parseValueErrorType(error.message)
+    if (!argType) continue
+    // El argumento conserva el tipo envuelto ([DateTime!]); el tipo, solo el nombre
+    field.args.set(argName, argType.name)
+    ensureType(state, unwrapTypeName(argType.name), argType.kind)
+  }
+}
+
+/** Deduce tipo y clase de un error de valor de argumento */
+function parseValueErrorType(
+  message: string
+): { name: string; kind: ReconstructedType['kind'] } | null {
+  const inputField = message.match(/is not defined by type "(\w+)"/)
+  if (inputField) return { name: inputField[1], kind: 'input' }
+  const enumValue = message.match(/^Enum "(\w+)" cannot represent/)
+  if (enumValue) return { name: enumValue[1], kind: 'enum' }
+  const expected = message.match(/Expected value of type "([^"]+)"/)
+  if (expected) return { name: expected[1], kind: 'scalar' }
+  const builtin = message.match(/^(\w+) cannot represent/)
+  if (builtin && BUILTIN_SCALARS.includes(builtin[1])) {
+    return { name: builtin[1], kind: 'scalar' }
+  }
+  return null
+}
+
+/** Envía una sonda y devuelve los errores GraphQL (null si no hay respuesta útil) */
+async function sendProbe(
+  state: ReconstructionState,
+  query: string
+): Promise<readonly GraphQLError[] | null> {
+  if (state.requestsSent >= state.maxRequests) return null
+  state.requestsSent++
+  try {
+    const response = await state.http.post<{
+      errors?: readonly GraphQLError[]
+    }>(
+      state.url,
+      { query },
+      {
+        headers: state.headers,
+        validateStatus: () => true, // Muchas APIs responden 400 a errores de validación
+      }
+    )
+    return Array.isArray(response.data?.errors) ? response.data.errors : null
+  } catch (error) {
+    if (error instanceof RequestBudgetExceededError) {
+      // Se reconstruye con lo descubierto hasta ahora
+      state.maxRequests = state.requestsSent
+      return null
+    }
+    console.warn('[SchemaReconstructor] Sonda fallida:', getErrorMessage(error))
+    return null
+  }
+}
+
+/** Envuelve una selección en la ruta de campos indicada, añadiendo el centinela */
+function wrapSelection(
+  operation: 'query' | 'mutation',
+  fieldPath: string[],
+  selection: string
+): string {
+  return `${selectionPrefix(operation, fieldPath)} ${selection}${selectionSuffix(fieldPath)}`
+}
+
+function selectionPrefix(
+  operation: 'query' | 'mutation',
+  fieldPath: string[]
+): string {
+  return `${operation} {${fieldPath.map((f) => ` ${f} {`).join('')}`
+}
+
+function selectionSuffix(fieldPath: string[]): string {
+  return ` ${SENTINEL_FIELD}${' }'.repeat(fieldPath.length)} }`
+}
+
+/** Extrae los nombres sugeridos de un mensaje "Did you mean ...?" */
+function parseSuggestions(message: string): string[] {
+  const index = message.indexOf('Did you mean')
+  if (index === -1) return []
+  return [...message.slice(index).matchAll(/"(\w+)"/g)].map((m) => m[1])
+}
+
+function unwrapTypeName(typeString: string): string {
+  return typeString.replace(/[[\]!]/g, '')
+}
+
+function isCompositeKind(kind?: ReconstructedType['kind']): boolean {
+  return kind === 'object' || kind === 'interface'
+}
+
+function ensureType(
+  state: ReconstructionState,
+  name: string,
+  kind: ReconstructedType['kind']
+): ReconstructedType {
+  let type = state.types.get(name)
+  if (!type) {
+    type = { name, kind, fields: new Map(), possibleTypes: new Set() }
+    state.types.set(name, type)
+  } else if (
+    (type.kind === 'scalar' && kind !== 'scalar') ||
+    (type.kind === 'object' && kind === 'interface')
+  ) {
+    type.kind = kind
+  }
+  return type
+}
+
+/** Genera el SDL del schema parcial reconstruido */
+function buildSdl(
+  state: ReconstructionState,
+  queryTypeName: string,
+  mutationTypeName?: string
+): string {
+  const parts: string[] = [
+    `schema { query: ${queryTypeName}${mutationTypeName ? ` mutation: ${mutationTypeName}` : ''} }`,
+  ]
+  const referenced = new Set<string>()
+  const interfacesOf = new Map<string, string[]>()
+  for (const type of state.types.values()) {
+    for (const name of type.possibleTypes) {
+      interfacesOf.set(name, [...(interfacesOf.get(name) ?? []), type.name])
+    }
+  }
+
+  for (const type of state.types.values()) {
+    if (BUILTIN_SCALARS.includes(type.name)) continue
+    const keyword =
+      type.kind === 'object'
+        ? 'type'
+        : type.kind === 'interface'
+          ? 'interface'
+          : type.kind
+    const interfaces = interfacesOf.get(type.name)
+    const header = `${keyword} ${type.name}${interfaces ? ` implements ${interfaces.join(' & ')}` : ''}`
+    if (!isCompositeKind(type.kind) || type.fields.size === 0) {
+      parts.push(header)
+      continue
+    }
+    const fields = [...type.fields.values()].map((field) => {
+      const fieldType = field.type ?? 'String'
+      referenced.add(unwrapTypeName(fieldType))
+      const args = [...field.args.entries()].map(([name, argType]) => {
+        referenced.add(unwrapTypeName(argType ?? 'String'))
+        return `${name}: ${argType ?? 'String'}`
+      })
+      return `  ${field.name}${args.length > 0 ? `(${args.join(', ')})` : ''}: ${fieldType}`
+    })
+    parts.push(`${header} {\n${fields.join('\n')}\n}`)
+  }
+  // Tipos referenciados que nunca se clasificaron se declaran como escalares
+  for (const name of referenced) {
+    if (!BUILTIN_SCALARS.includes(name) && !state.types.has(name)) {
+      parts.push(`scalar ${name}`)
+    }
+  }
+  return parts.join('\n\n')
+}
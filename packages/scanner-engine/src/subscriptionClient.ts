@@ -0,0 +1,170 @@
+import WebSocket from 'ws'
+import type { SubscriptionProtocol } from '@graphql-sentinel/shared-types'
+
+const CONNECTION_ACK_TIMEOUT = 5000
+const SUBSCRIPTION_ID = '1'
+
+export type SubscriptionOutcome =
+  | 'data' // Llegó al menos un evento con datos
+  | 'accepted' // Sin errores durante la espera: la suscripción está activa
+  | 'rejected' // El servidor devolvió error o cerró la suscripción
+  | 'connection-rejected' // Sin connection_ack (auth rechazada o protocolo no soportado)
+
+export interface SubscriptionProbeResult {
+  outcome: SubscriptionOutcome
+  errors?: string[]
+  data?: unknown
+  closeCode?: number
+}
+
+export interface SubscriptionProbeOptions {
+  protocol: SubscriptionProtocol
+  authHeaders?: Record<string, string> // Se envían en connection_init y en el upgrade
+  operation?: { query: string; variables: Record<string, unknown> }
+  eventTimeoutMs: number
+}
+
+// Tipos de mensaje de cada subprotocolo
+const MESSAGE_TYPES: Record<
+  SubscriptionProtocol,
+  { subscribe: string; next: string; stop: string }
+> = {
+  'graphql-transport-ws': {
+    subscribe: 'subscribe',
+    next: 'next',
+    stop: 'complete',
+  },
+  'graphql-ws': { subscribe: 'start', next: 'data', stop: 'stop' },
+}
+
+/**
+ * Abre una conexión WebSocket, la autentica con connection_init y, si se indica
+ * una operación, se suscribe y espera el primer evento o error.
+ */
+export function probeSubscription(
+  url: string,
+  options: SubscriptionProbeOptions
+): Promise<SubscriptionProbeResult> {
+  const messageTypes = MESSAGE_TYPES[options.protocol]
+  const authHeaders = options.authHeaders ?? {}
+  const authenticated = Object.keys(authHeaders).length > 0
+
+  return new Promise((resolve) => {
+    const socket = new WebSocket(url, options.protocol, {
+      headers: authHeaders,
+      handshakeTimeout: CONNECTION_ACK_TIMEOUT,
+    })
+    let acknowledged = false
+    let timer: NodeJS.Timeout | undefined
+    let settled = false
+
+    const finish = (result: SubscriptionProbeResult) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      if (socket.readyState === WebSocket.OPEN) {
+        if (acknowledged && options.operation) {
+          socket.send(
+            JSON.stringify({ id: SUBSCRIPTION_ID, type: messageTypes.stop })
+          )
+        }
+        socket.close(1000)
+      } else {
+        socket.terminate()
+      }
+      resolve(result)
+    }
+    const send = (message: Record<string, unknown>) =>
+      socket.send(JSON.stringify(message))
+
+    timer = setTimeout(
+      () => finish({ outcome: 'connection-rejected', errors: ['timeout'] }),
+      CONNECTION_ACK_TIMEOUT
+    )
+
+    socket.on('open', () => {
+      send({
+        type: 'connection_init',
+        payload: authenticated ? { ...authHeaders, headers: authHeaders } : {},
+      })
+    })
+
+    socket.on('message', (raw) => {
+      let message: { type?: string; id?: string; payload?: unknown }
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        return
+      }
+      switch (message.type) {
+        case 'connection_ack':
+          acknowledged = true
+          clearTimeout(timer)
+          if (!options.operation) return finish({ outcome: 'accepted' })
+          send({
+            id: SUBSCRIPTION_ID,
+            type: messageTypes.subscribe,
+            payload: options.operation,
+          })
+          timer = setTimeout(
+            () => finish({ outcome: 'accepted' }),
+            options.eventTimeoutMs
+          )
+          return
+        case 'connection_error':
+          return finish({
+            outcome: 'connection-rejected',
+            errors: extractErrorMessages(message.payload),
+          })
+        case 'ping':
+          return send({ type: 'pong' })
+        case messageTypes.next: {
+          const payload = message.payload as
+            | { data?: unknown; errors?: unknown }
+            | undefined
+          return finish(
+            payload?.data
+              ? { outcome: 'data', data: payload.data }
+              : {
+                  outcome: 'rejected',
+                  errors: extractErrorMessages(payload?.errors),
+                }
+          )
+        }
+        case 'error':
+          return finish({
+            outcome: 'rejected',
+            errors: extractErrorMessages(message.payload),
+          })
+        case 'complete':
+          return finish({ outcome: 'rejected', errors: ['complete'] })
+      }
+    })
+
+    socket.on('close', (code) =>
+      finish({
+        outcome: acknowledged ? 'rejected' : 'connection-rejected',
+        closeCode: code,
+      })
+    )
+    socket.on('error', (error) =>
+      finish({ outcome: 'connection-rejected', errors: [error.message] })
+    )
+  })
+}
+
+function extractErrorMessages(payload: unknown): string[] {
+  const errors = Array.isArray(payload) ? payload : [payload]
+  return errors
+    .filter((e) => e !== undefined && e !== null)
+    .map((e) =>
+      typeof e === 'object' && 'message' in e
+        ? String((e as { message: unknown }).message)
+        : JSON.stringify(e)
+    )
+}
+
+/** URL WebSocket por defecto: la del target con ws:// o wss:// */
+export function toWebSocketUrl(httpUrl: string): string {
+  return httpUrl.replace(/^http(s?):\/\//i, 'ws$1://')
+}
@@ -0,0 +1,315 @@
+import { GraphQLSchema, print } from 'graphql'
+import type {
+  ScanTarget,
+  SubscriptionProtocol,
+  UserContext,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { createFinding, buildHeaders, contextRole } from './utils'
+import {
+  buildGraphQLOperation,
+  buildRootFieldOperation,
+  findBolaPointsOfInterest,
+  inferObjectTypeFromFieldName,
+} from './graphUtils'
+import { BolaPointOfInterest, ScanSession, Check, CheckContext } from './types'
+import {
+  probeSubscription,
+  toWebSocketUrl,
+  SubscriptionProbeResult,
+} from './subscriptionClient'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+const DEFAULT_EVENT_TIMEOUT = 3000
+const ALL_PROTOCOLS: SubscriptionProtocol[] = [
+  'graphql-transport-ws',
+  'graphql-ws',
+]
+
+export const subscriptionCheck: Check = {
+  id: 'subscriptions',
+  category: 'authorization',
+  description: 'Subscriptions por WebSocket: conexiones anónimas y BOLA',
+  requiresSchema: true,
+  transport: 'websocket',
+  run: runSubscriptionChecks,
+}
+
+/** Chequeos de subscriptions por WebSocket: conexiones anónimas y BOLA */
+export async function runSubscriptionChecks(
+  context: CheckContext
+): Promise<void> {
+  const { target, schema, findings, session } = context
+  if (target.subscriptionConfig?.enabled === false) {
+    console.log('[SubscriptionScanner] Chequeo de subscriptions deshabilitado.')
+    return
+  }
+  const subscriptionFields = Object.keys(
+    schema?.getSubscriptionType()?.getFields() ?? {}
+  )
+  if (!schema || subscriptionFields.length === 0) {
+    console.log(
+      '[SubscriptionScanner] Saltando chequeo de subscriptions (el schema no define Subscription).'
+    )
+    return
+  }
+
+  const url = target.subscriptionConfig?.url ?? toWebSocketUrl(target.url)
+  const eventTimeoutMs =
+    target.subscriptionConfig?.eventTimeoutMs ?? DEFAULT_EVENT_TIMEOUT
+  // Cada conexión WebSocket pasa por el limitador y consume presupuesto como una petición HTTP
+  const probe = (
+    protocol: SubscriptionProtocol,
+    context?: UserContext,
+    operation?: { query: string; variables: Record<string, unknown> }
+  ): Promise<SubscriptionProbeResult> =>
+    session.scheduler.run(() => {
+      session.policy.countRequest()
+      return probeSubscription(url, {
+        protocol,
+        authHeaders: context ? authHeadersFor(session, context) : undefined,
+        operation,
+        eventTimeoutMs,
+      })
+    })
+
+  console.log(
+    `[SubscriptionScanner] Conectando a ${url} (${subscriptionFields.length} subscriptions)...`
+  )
+  const anonymousProtocols: SubscriptionProtocol[] = []
+  const supportedProtocols: SubscriptionProtocol[] = []
+  for (const protocol of target.subscriptionConfig?.protocols ??
+    ALL_PROTOCOLS) {
+    const anonymous = await probe(protocol)
+    if (anonymous.outcome === 'accepted') {
+      anonymousProtocols.push(protocol)
+      supportedProtocols.push(protocol)
+      continue
+    }
+    const context = target.userContexts?.[0]
+    if (context && (await probe(protocol, context)).outcome === 'accepted') {
+      supportedProtocols.push(protocol)
+    }
+  }
+  if (supportedProtocols.length === 0) {
+    console.log(
+      '[SubscriptionScanner] El servidor no aceptó conexiones WebSocket con ningún subprotocolo.'
+    )
+    return
+  }
+  console.log(
+    `[SubscriptionScanner] Subprotocolos soportados: ${supportedProtocols.join(', ')}`
+  )
+
+  if (anonymousProtocols.length > 0) {
+    await checkAnonymousSubscriptions(
+      target,
+      schema,
+      subscriptionFields,
+      anonymousProtocols,
+      findings,
+      session,
+      probe
+    )
+  }
+  await checkSubscriptionBola(
+    target,
+    schema,
+    supportedProtocols[0],
+    findings,
+    session,
+    probe
+  )
+  console.log('[SubscriptionScanner] Chequeo de subscriptions completado.')
+}
+
+type ProbeFn = (
+  protocol: SubscriptionProtocol,
+  context?: UserContext,
+  operation?: { query: string; variables: Record<string, unknown> }
+) => Promise<SubscriptionProbeResult>
+
+/** Se suscribe sin credenciales a cada campo de Subscription */
+async function checkAnonymousSubscriptions(
+  target: ScanTarget,
+  schema: GraphQLSchema,
+  subscriptionFields: string[],
+  anonymousProtocols: SubscriptionProtocol[],
+  findings: VulnerabilityFinding[],
+  session: ScanSession,
+  probe: ProbeFn
+): Promise<void> {
+  const protocol = anonymousProtocols[0]
+  const accepted: {
+    fieldName: string
+    outcome: string
+    query: string
+    variables: Record<string, unknown>
+  }[] = []
+  for (const fieldName of subscriptionFields) {
+    if (!session.policy.allows('subscriptions', 'subscription', fieldName)) {
+      continue
+    }
+    const built = buildRootFieldOperation(
+      schema,
+      'subscription',
+      fieldName,
+      target.argumentValues
+    )
+    if (!built) continue
+    const operation = {
+      query: print(built.document),
+      variables: built.variables,
+    }
+    const result = await probe(protocol, undefined, operation)
+    if (result.outcome === 'data' || result.outcome === 'accepted') {
+      accepted.push({ fieldName, outcome: result.outcome, ...operation })
+    }
+  }
+
+  if (accepted.length > 0) {
+    findings.push(
+      createFinding(
+        'High',
+        'Subscriptions Accesibles sin Autenticación',
+        `El servidor aceptó suscripciones sin credenciales (${accepted.map((a) => a.fieldName).join(', ')}). Cualquiera puede recibir estos eventos en tiempo real. Valida la autenticación en connection_init y en cada suscripción.`,
+        { protocols: anonymousProtocols, subscriptions: accepted },
+        {
+          ...FINDING_CLASSES.unauthenticated,
+          confidence: accepted.some((a) => a.outcome === 'data')
+            ? 'High'
+            : 'Medium',
+          location: { operation: 'subscription' },
+        }
+      )
+    )
+  } else {
+    findings.push(
+      createFinding(
+        'Low',
+        'Conexión WebSocket Anónima Aceptada',
+        'El servidor responde connection_ack sin credenciales, aunque rechazó las suscripciones probadas. Rechaza la conexión en connection_init si no hay autenticación.',
+        { protocols: anonymousProtocols },
+        { ...FINDING_CLASSES.unauthenticated, confidence: 'High' }
+      )
+    )
+  }
+}
+
+/**
+ * Un contexto se suscribe a eventos de objetos de otro usuario. Solo cuenta
+ * si la víctima puede suscribirse a su propio objeto (línea base).
+ */
+async function checkSubscriptionBola(
+  target: ScanTarget,
+  schema: GraphQLSchema,
+  protocol: SubscriptionProtocol,
+  findings: VulnerabilityFinding[],
+  session: ScanSession,
+  probe: ProbeFn
+): Promise<void> {
+  const contexts = target.userContexts ?? []
+  if (contexts.length < 2) {
+    console.log(
+      '[SubscriptionScanner] Saltando BOLA en subscriptions (se requieren >= 2 userContexts).'
+    )
+    return
+  }
+  const points = findBolaPointsOfInterest(
+    schema,
+    target.bolaConfig?.targetObjectTypes
+  ).filter((p) => p.operation === 'subscription')
+  if (points.length === 0) {
+    console.log(
+      '[SubscriptionScanner] No hay subscriptions con argumentos ID para probar BOLA.'
+    )
+    return
+  }
+
+  for (const point of points) {
+    if (
+      !session.policy.allows('subscriptions', 'subscription', point.fieldName)
+    ) {
+      continue
+    }
+    for (const victim of contexts) {
+      for (const objectId of victimObjectIds(point, victim)) {
+        const built = buildGraphQLOperation(
+          point,
+          objectId,
+          schema,
+          target.argumentValues
+        )
+        if (!built) continue
+        const operation = {
+          query: print(built.document),
+          variables: built.variables,
+        }
+        const baseline = await probe(protocol, victim, operation)
+        if (baseline.outcome !== 'data' && baseline.outcome !== 'accepted') {
+          continue
+        }
+        for (const attacker of contexts) {
+          if (attacker.id === victim.id) continue
+          const result = await probe(protocol, attacker, operation)
+          if (result.outcome !== 'data' && result.outcome !== 'accepted') {
+            continue
+          }
+          findings.push(
+            createFinding(
+              result.outcome === 'data' ? 'High' : 'Medium',
+              `BOLA en Subscription Detectado (${point.fieldName})`,
+              result.outcome === 'data'
+                ? `El contexto '${attacker.id}' recibió eventos de ${point.fieldName} sobre el objeto '${objectId}' de '${victim.id}'. Verifica la autorización en el resolver de la suscripción.`
+                : `El contexto '${attacker.id}' pudo suscribirse a ${point.fieldName} sobre el objeto '${objectId}' de '${victim.id}' sin error (no llegaron eventos durante la espera). Verifica la autorización en el resolver de la suscripción.`,
+              {
+                attackerContext: attacker.id,
+                victimContext: victim.id,
+                objectId,
+                protocol,
+                outcome: result.outcome,
+                query: operation.query,
+                variables: operation.variables,
+                data: result.data,
+              },
+              {
+                ...FINDING_CLASSES.bola,
+                // Sin eventos recibidos solo consta que se aceptó la suscripción
+                confidence: result.outcome === 'data' ? 'High' : 'Medium',
+                location: {
+                  operation: 'subscription',
+                  field: point.fieldName,
+                  argument: point.idArgName,
+                  attacker: contextRole(attacker),
+                  victim: contextRole(victim),
+                },
+              }
+            )
+          )
+        }
+      }
+    }
+  }
+}
+
+function victimObjectIds(
+  point: BolaPointOfInterest,
+  victim: UserContext
+): string[] {
+  const objectType =
+    point.returnTypeName || inferObjectTypeFromFieldName(point.fieldName)
+  return victim.ownedObjectIds[objectType] ?? []
+}
+
+/** Solo las cabeceras de autenticación del contexto (sin Content-Type/Accept) */
+function authHeadersFor(
+  session: ScanSession,
+  context: UserContext
+): Record<string, string> {
+  const baseHeaders = buildHeaders()
+  return Object.fromEntries(
+    Object.entries(session.auth.headersFor(context)).filter(
+      ([name]) => !(name in baseHeaders)
+    )
+  )
+}
@@ -1,6 +1,96 @@
+import type {
+  ArgumentNode,
+  DocumentNode,
+  GraphQLSchema,
+  VariableDefinitionNode,
+} from 'graphql'
+import type { AxiosInstance } from 'axios'
+import type {
+  CheckCategory,
+  SchemaSource,
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import type { ScanPolicy } from './scanPolicy'
+import type { AuthManager } from './authManager'
+import type { RequestScheduler } from './httpClient'
+
+export type { CheckCategory }
+
+/** Tipo de operación raíz del schema */
+export type RootOperation = 'query' | 'mutation' | 'subscription'
+
 export interface BolaPointOfInterest {
   fieldName: string
   idArgName: string
-  operation: 'query' | 'mutation'
+  operation: RootOperation
   returnTypeName?: string
+  // Interfaz Relay: node(id:) o nodes(ids:) con IDs globales base64 'Tipo:id'.
+  // En ese caso returnTypeName es el tipo concreto usado en el inline fragment.
+  relayField?: 'node' | 'nodes'
+}
+
+export interface PaginatedField {
+  fieldName: string
+  sizeArgName?: string // first/limit/pageSize...
+  offsetArgName?: string // offset/skip
+  isConnection: boolean // Conexión Relay (edges { node })
+}
+
+/** Estado compartido por los chequeos de un escaneo */
+export interface ScanSession {
+  http: AxiosInstance // Cuenta cada petición contra el presupuesto de la política
+  policy: ScanPolicy
+  auth: AuthManager // Credenciales de cada userContext (con login y renovación)
+  scheduler: RequestScheduler // Límite de peticiones/s y concurrencia compartido
+}
+
+/** Lo que recibe cada check al ejecutarse */
+export interface CheckContext {
+  target: ScanTarget
+  schema: GraphQLSchema | null
+  findings: VulnerabilityFinding[]
+  session: ScanSession
+  headers: Record<string, string> // Cabeceras del primer userContext
+  options: Record<string, unknown> // `checks.options[id]` del target
+}
+
+/** Chequeo de seguridad ejecutable por el motor */
+export interface Check {
+  id: string
+  category: CheckCategory
+  description: string
+  requiresSchema?: boolean // Se omite si no se pudo obtener el schema
+  minUserContexts?: number // Se omite si hay menos userContexts
+  transport?: 'http' | 'websocket' // Los checks por WebSocket no se reproducen desde un HAR
+  run(context: CheckContext): Promise<void>
+}
+
+export interface SchemaFetchResult {
+  schema: GraphQLSchema | null
+  source: SchemaSource
+}
+
+/** Argumentos de un campo expresados como variables ($nombre) y sus valores */
+export interface SynthesizedArguments {
+  argumentNodes: ArgumentNode[]
+  variableDefinitions: VariableDefinitionNode[]
+  variables: Record<string, unknown>
+}
+
+/** Documento listo para enviar junto con sus variables */
+export interface BuiltOperation {
+  document: DocumentNode
+  variables: Record<string, unknown>
+}
+
+export interface RecursivePathStep {
+  fieldName: string
+  args: SynthesizedArguments // Argumentos obligatorios con valores de ejemplo
+}
+
+/** Ruta desde Query hasta un ciclo de tipos que permite anidar sin fin */
+export interface RecursivePath {
+  prefix: RecursivePathStep[]
+  cycle: RecursivePathStep[]
 }
@@ -0,0 +1,142 @@
+import { AxiosError } from 'axios'
+import { GraphQLError, print } from 'graphql'
+import { createFinding, getErrorMessage, buildHeaders } from './utils'
+import { buildRootFieldOperation } from './graphUtils'
+import { Check, CheckContext } from './types'
+import { rethrowIfBudgetExceeded } from './scanPolicy'
+import { FINDING_CLASSES } from './findingTaxonomy'
+
+// Operaciones que es normal exponer sin credenciales (login, registro...)
+const PUBLIC_OPERATION_PATTERN =
+  /^(login|logout|signin|signup|register|refresh|forgot|reset|verify)|^__/i
+
+interface ExposedOperation {
+  operation: 'query' | 'mutation'
+  fieldName: string
+  query: string
+  variables: Record<string, unknown>
+  response: unknown
+}
+
+export const unauthenticatedCheck: Check = {
+  id: 'unauthenticated',
+  category: 'authentication',
+  description: 'Operaciones raíz accesibles sin credenciales',
+  requiresSchema: true,
+  run: runUnauthenticatedChecks,
+}
+
+/** Ejecuta cada campo raíz (Query y Mutation) sin credenciales */
+export async function runUnauthenticatedChecks(
+  context: CheckContext
+): Promise<void> {
+  const { target, schema, findings, session } = context
+  if (target.unauthenticatedConfig?.enabled === false) {
+    console.log('[UnauthScanner] Chequeo sin autenticación deshabilitado.')
+    return
+  }
+  if (!schema) {
+    console.log(
+      '[UnauthScanner] Saltando chequeo sin autenticación (schema no disponible).'
+    )
+    return
+  }
+
+  const operations = [
+    ...Object.keys(schema.getQueryType()?.getFields() ?? {}).map(
+      (fieldName) => ({ operation: 'query' as const, fieldName })
+    ),
+    ...(target.unauthenticatedConfig?.includeMutations === false
+      ? []
+      : Object.keys(schema.getMutationType()?.getFields() ?? {}).map(
+          (fieldName) => ({ operation: 'mutation' as const, fieldName })
+        )),
+  ]
+  console.log(
+    `[UnauthScanner] Ejecutando ${operations.length} operaciones raíz sin credenciales...`
+  )
+
+  const headers = buildHeaders() // Sin Authorization
+  const exposed: ExposedOperation[] = []
+  const skipped: string[] = []
+
+  for (const { operation, fieldName } of operations) {
+    if (!session.policy.allows('unauthenticated', operation, fieldName)) {
+      continue
+    }
+    const built = buildRootFieldOperation(
+      schema,
+      operation,
+      fieldName,
+      target.argumentValues
+    )
+    if (!built) {
+      skipped.push(fieldName)
+      continue
+    }
+    const query = print(built.document)
+    const { variables } = built
+    try {
+      const response = await session.http.post<{
+        data?: Record<string, unknown>
+        errors?: readonly GraphQLError[]
+      }>(target.url, { query, variables }, { headers })
+      const responseData = response.data?.data?.[fieldName]
+      if (responseData !== null && responseData !== undefined) {
+        exposed.push({
+          operation,
+          fieldName,
+          query,
+          variables,
+          response: responseData,
+        })
+      }
+    } catch (error) {
+      rethrowIfBudgetExceeded(error)
+      if (
+        !(
+          error instanceof AxiosError &&
+          (error.response?.status === 401 || error.response?.status === 403)
+        )
+      ) {
+        console.warn(
+          `[UnauthScanner] Error ejecutando ${operation} ${fieldName}: ${getErrorMessage(error)}`
+        )
+      }
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.log(
+      `[UnauthScanner] Operaciones omitidas (no se pudieron sintetizar argumentos): ${skipped.join(', ')}`
+    )
+  }
+
+  const unexpected = exposed.filter(
+    (e) => !PUBLIC_OPERATION_PATTERN.test(e.fieldName)
+  )
+  if (unexpected.length === 0) {
+    console.log(
+      `[UnauthScanner] Chequeo sin autenticación OK (${exposed.length} operaciones públicas esperadas).`
+    )
+    return
+  }
+
+  const exposedMutations = unexpected.filter((e) => e.operation === 'mutation')
+  findings.push(
+    createFinding(
+      exposedMutations.length > 0 ? 'High' : 'Medium',
+      'Operaciones Accesibles sin Autenticación',
+      `${unexpected.length} operaciones raíz devolvieron datos sin credenciales (${unexpected.map((e) => e.fieldName).join(', ')}). Revisa que cada resolver exija autenticación salvo las operaciones públicas intencionadas.`,
+      {
+        exposedFields: unexpected.map((e) => `${e.operation}.${e.fieldName}`),
+        publicOperations: exposed
+          .filter((e) => PUBLIC_OPERATION_PATTERN.test(e.fieldName))
+          .map((e) => `${e.operation}.${e.fieldName}`),
+        operations: unexpected,
+      },
+      { ...FINDING_CLASSES.unauthenticated, confidence: 'High' }
+    )
+  )
+  console.log('[UnauthScanner] Chequeo sin autenticación completado.')
+}
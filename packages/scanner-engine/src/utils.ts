@@ -1,20 +1,71 @@
 import axios, { AxiosError } from 'axios'
 import { GraphQLError } from 'graphql'
-import type { VulnerabilityFinding } from '@graphql-sentinel/shared-types'
+import type {
+  FindingReproduction,
+  UserContext,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
 
-/** Helper para crear objetos de hallazgo */
+/** Campos estructurados del hallazgo: clasificación, certeza, ubicación y reproducción */
+export type FindingDetails = Pick<
+  VulnerabilityFinding,
+  'category' | 'cwe' | 'owasp' | 'confidence' | 'location' | 'reproduction'
+>
+
+/** Helper para crear objetos de hallazgo (el motor sustituye el id por el fingerprint) */
 export function createFinding(
   severity: VulnerabilityFinding['severity'],
   description: string,
   recommendation: string,
-  evidence?: Record<string, unknown>
+  evidence?: Record<string, unknown>,
+  details?: FindingDetails
 ): VulnerabilityFinding {
   // Asegura que crypto esté disponible (Node >= 14.17) o usa un fallback
   const id =
     typeof crypto !== 'undefined' && crypto.randomUUID
       ? crypto.randomUUID()
       : `finding-${Date.now()}-${Math.random()}`
-  return { id, severity, description, recommendation, evidence }
+  return {
+    id,
+    severity,
+    description,
+    recommendation,
+    evidence,
+    ...details,
+  }
+}
+
+/** Petición lista para ejecutar (incluye el comando curl equivalente) */
+export function buildReproduction(
+  url: string,
+  headers: Record<string, string>,
+  body?: unknown,
+  method: FindingReproduction['method'] = 'POST'
+): FindingReproduction {
+  const payload = body === undefined ? undefined : JSON.stringify(body)
+  const curl = [
+    `curl -X ${method} ${shellQuote(url)}`,
+    ...Object.entries(headers).map(
+      ([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`
+    ),
+    ...(payload !== undefined ? [`--data-raw ${shellQuote(payload)}`] : []),
+  ].join(' \\\n  ')
+  return {
+    method,
+    url,
+    headers,
+    ...(payload !== undefined ? { body: payload } : {}),
+    curl,
+  }
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/** Identidad estable de un contexto en los fingerprints: su rol o, si no tiene, su id */
+export function contextRole(context: UserContext): string {
+  return context.role ?? context.id
 }
 
 /** Helper para obtener un mensaje de error legible */
@@ -62,3 +113,38 @@ export function buildHeaders(authToken?: string): Record<string, string> {
 export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
+
+/**
+ * Comprueba si una operación coincide con un patrón de nombre. El patrón admite
+ * '*' como comodín y un prefijo opcional 'query:' / 'mutation:'.
+ */
+export function matchesOperationPattern(
+  pattern: string,
+  operation: string,
+  fieldName: string
+): boolean {
+  const prefixed = pattern.match(/^(query|mutation|subscription):(.*)$/)
+  if (prefixed && prefixed[1] !== operation) return false
+  const namePattern = prefixed ? prefixed[2] : pattern
+  const regex = new RegExp(
+    `^${namePattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+    'i'
+  )
+  return regex.test(fieldName)
+}
+
+/**
+ * Separa un identificador en palabras en minúsculas (camelCase, PascalCase,
+ * snake_case), ej: 'updateBankAccount' -> ['update', 'bank', 'account'].
+ */
+export function splitIdentifierWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase())
+}
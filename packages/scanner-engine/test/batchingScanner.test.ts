@@ -0,0 +1,93 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { AxiosInstance } from 'axios'
+import { buildSchema, graphql } from 'graphql'
+import type {
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { runBatchingChecks } from '../src/batchingScanner'
+import { createScanPolicy } from '../src/scanPolicy'
+import { createRequestScheduler } from '../src/httpClient'
+import { createAuthManager } from '../src/authManager'
+
+// Servidor sin límite de batching: ejecuta arrays y alias de cualquier tamaño
+const schema = buildSchema(`
+  type Query {
+    products: [String]
+  }
+  type Mutation {
+    addToCart(productId: ID!): Boolean
+    verifyOtp(code: String!): Boolean
+  }
+`)
+const rootValue = {
+  products: () => ['a'],
+  addToCart: () => true,
+  verifyOtp: () => false,
+}
+
+async function scanBatching(
+  fieldName?: string
+): Promise<VulnerabilityFinding[]> {
+  const execute = (operation: {
+    query: string
+    variables?: Record<string, unknown>
+  }) =>
+    graphql({
+      schema,
+      source: operation.query,
+      rootValue,
+      variableValues: operation.variables,
+    })
+  const http = {
+    async post(_url: string, body: unknown) {
+      return {
+        status: 200,
+        data: Array.isArray(body)
+          ? await Promise.all(body.map(execute))
+          : await execute(body as { query: string }),
+      }
+    },
+  } as unknown as AxiosInstance
+  const target: ScanTarget = {
+    id: 'test',
+    url: 'http://localhost/graphql',
+    userContexts: [],
+    batchingConfig: { fieldName, maxBatchSize: 10, maxAliasCount: 10 },
+  }
+  const findings: VulnerabilityFinding[] = []
+  await runBatchingChecks({
+    target,
+    schema,
+    findings,
+    session: {
+      http,
+      policy: createScanPolicy(),
+      auth: createAuthManager(target, http),
+      scheduler: createRequestScheduler({ requestsPerSecond: 0 }),
+    },
+    headers: {},
+    options: {},
+  })
+  return findings
+}
+
+test('la severidad del batching depende del tipo de operación repetida', async () => {
+  const cases: [string | undefined, string, string][] = [
+    [undefined, 'products', 'Medium'], // Query elegida por defecto
+    ['addToCart', 'addToCart', 'High'],
+    ['verifyOtp', 'verifyOtp', 'Critical'],
+  ]
+  for (const [fieldName, repeated, severity] of cases) {
+    const findings = await scanBatching(fieldName)
+    assert.deepEqual(
+      findings.map((f) => [f.location?.field, f.severity]),
+      [
+        [repeated, severity],
+        [repeated, severity],
+      ],
+      fieldName ?? 'por defecto'
+    )
+  }
+})
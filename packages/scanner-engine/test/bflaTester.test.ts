@@ -0,0 +1,32 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { isPrivilegedOperation } from '../src/bflaTester'
+
+test('isPrivilegedOperation reconoce operaciones de administración', () => {
+  for (const name of [
+    'adminUsers',
+    'banUser',
+    'grantRole',
+    'setUserRoles',
+    'revokePermission',
+    'auditLog',
+    'debug_info',
+    'StatsDashboard',
+  ]) {
+    assert.equal(isPrivilegedOperation(name), true, name)
+  }
+})
+
+test('isPrivilegedOperation no confunde subcadenas con palabras', () => {
+  for (const name of [
+    'bankAccount',
+    'updateBankAccount',
+    'controllerSettings',
+    'orderStatus',
+    'updateShippingStatus',
+    'administrativeArea',
+    'grantedAt',
+  ]) {
+    assert.equal(isPrivilegedOperation(name), false, name)
+  }
+})
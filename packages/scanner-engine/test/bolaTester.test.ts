@@ -0,0 +1,109 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { AxiosInstance } from 'axios'
+import { buildSchema, graphql } from 'graphql'
+import type {
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { runBolaChecks } from '../src/bolaTester'
+import { fromGlobalId } from '../src/graphUtils'
+import { createScanPolicy } from '../src/scanPolicy'
+import { createRequestScheduler } from '../src/httpClient'
+import { createAuthManager } from '../src/authManager'
+
+// node(id) devuelve cualquier objeto sin comprobar a quién pertenece
+const schema = buildSchema(`
+  interface Node {
+    id: ID!
+  }
+  type User implements Node {
+    id: ID!
+    name: String
+  }
+  type Order implements Node {
+    id: ID!
+    total: Float
+  }
+  type Query {
+    node(id: ID!): Node
+  }
+`)
+const rootValue = {
+  node: ({ id }: { id: string }) => {
+    const decoded = fromGlobalId(id)
+    if (decoded?.typeName === 'User') {
+      return { __typename: 'User', id, name: `user ${decoded.id}` }
+    }
+    if (decoded?.typeName === 'Order') {
+      return { __typename: 'Order', id, total: 10 }
+    }
+    return null
+  },
+}
+// El tipo concreto de Node sale del __typename del objeto devuelto
+const typeResolver = (value: { __typename: string }) => value.__typename
+
+test('prueba node una vez por tipo Relay aunque los IDs coincidan', async () => {
+  const requestedIds: string[] = []
+  const http = {
+    async post(
+      _url: string,
+      body: { query: string; variables?: Record<string, unknown> }
+    ) {
+      requestedIds.push(...Object.values(body.variables ?? {}).map(String))
+      return {
+        status: 200,
+        data: await graphql({
+          schema,
+          source: body.query,
+          rootValue,
+          variableValues: body.variables,
+          typeResolver,
+        }),
+      }
+    },
+  } as unknown as AxiosInstance
+  const target: ScanTarget = {
+    id: 'test',
+    url: 'http://localhost/graphql',
+    userContexts: [
+      {
+        id: 'alice',
+        authToken: 'alice-token',
+        ownedObjectIds: { User: ['1'], Order: ['1'] },
+      },
+      { id: 'bob', authToken: 'bob-token', ownedObjectIds: {} },
+    ],
+  }
+  const findings: VulnerabilityFinding[] = []
+
+  await runBolaChecks({
+    target,
+    schema,
+    findings,
+    session: {
+      http,
+      policy: createScanPolicy(),
+      auth: createAuthManager(target, http),
+      scheduler: createRequestScheduler({ requestsPerSecond: 0 }),
+    },
+    headers: {},
+    options: {},
+  })
+
+  assert.deepEqual(
+    requestedIds.map((id) => fromGlobalId(id)),
+    [
+      { typeName: 'User', id: '1' },
+      { typeName: 'Order', id: '1' },
+    ]
+  )
+  assert.deepEqual(
+    findings.map((f) => [f.description, f.evidence?.globalId]),
+    [
+      ['BOLA Detectado', requestedIds[0]],
+      ['BOLA Detectado', requestedIds[1]],
+    ]
+  )
+})
@@ -0,0 +1,119 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import axios, { AxiosAdapter } from 'axios'
+import type {
+  UserContext,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import {
+  createDisclosureAnalyzer,
+  attachDisclosureInterceptor,
+} from '../src/disclosureAnalyzer'
+import {
+  AuthManager,
+  attachReauthenticationInterceptor,
+} from '../src/authManager'
+
+const STACK_TRACE = 'Error: boom\n    at resolve (/app/src/resolvers.js:10:5)'
+
+test('no reporta como fuga el payload que la petición envió', () => {
+  const findings: VulnerabilityFinding[] = []
+  const analyzer = createDisclosureAnalyzer(findings)
+  const payload = 'http://127.0.0.1:22/'
+  analyzer.analyze(
+    { errors: [{ message: `No se pudo descargar "${payload}"` }] },
+    'mutation importAvatar',
+    undefined,
+    [payload]
+  )
+  assert.equal(findings.length, 0)
+
+  analyzer.analyze(
+    { errors: [{ message: 'connect ECONNREFUSED db.internal:5432' }] },
+    'mutation importAvatar',
+    undefined,
+    [payload]
+  )
+  assert.deepEqual(
+    findings.map((f) => f.evidence?.leak),
+    ['db.internal']
+  )
+})
+
+test('cuenta una sola vez la respuesta de un reintento tras un 401', async () => {
+  const findings: VulnerabilityFinding[] = []
+  const context: UserContext = {
+    id: 'user',
+    authToken: 'old',
+    ownedObjectIds: {},
+  }
+  let token = 'old'
+  const auth = {
+    contextForRequest: () => context,
+    reauthenticate: async () => {
+      token = 'new'
+    },
+    headersFor: () => ({ Authorization: `Bearer ${token}` }),
+  } as unknown as AuthManager
+  const adapter: AxiosAdapter = async (config) => {
+    const authorized = config.headers.Authorization === 'Bearer new'
+    const response = {
+      data: authorized
+        ? { errors: [{ message: STACK_TRACE }] }
+        : { errors: [{ message: 'Unauthorized' }] },
+      status: authorized ? 200 : 401,
+      statusText: '',
+      headers: {},
+      config,
+    }
+    if (!authorized) {
+      throw new axios.AxiosError('401', 'ERR_BAD_REQUEST', config, {}, response)
+    }
+    return response
+  }
+  const http = axios.create({ adapter })
+  attachReauthenticationInterceptor(http, auth)
+  attachDisclosureInterceptor(http, createDisclosureAnalyzer(findings))
+
+  await http.post(
+    'http://localhost/graphql',
+    { query: '{ me { id } }' },
+    { headers: auth.headersFor(context) }
+  )
+
+  assert.equal(findings.length, 1)
+  assert.equal(findings[0].evidence?.occurrences, 1)
+})
+
+test('no reporta el eco de payloads enviados por GET, formulario o multipart', async () => {
+  const findings: VulnerabilityFinding[] = []
+  const echoed = '/app/src/uploads/avatar.js'
+  const query = `{ file(path: "${echoed}") { size } }`
+  const adapter: AxiosAdapter = async (config) => ({
+    data: { errors: [{ message: `No existe el archivo "${echoed}"` }] },
+    status: 200,
+    statusText: '',
+    headers: {},
+    config,
+  })
+  const http = axios.create({ adapter })
+  attachDisclosureInterceptor(http, createDisclosureAnalyzer(findings))
+  const boundary = '----GraphQLSentinelCsrfProbe'
+  const post = (contentType: string, body: string) =>
+    http.post('http://localhost/graphql', body, {
+      headers: { 'Content-Type': contentType },
+    })
+
+  await http.get('http://localhost/graphql', { params: { query } })
+  await post(
+    'application/x-www-form-urlencoded',
+    new URLSearchParams({ query }).toString()
+  )
+  await post('text/plain', JSON.stringify({ query }))
+  await post(
+    `multipart/form-data; boundary=${boundary}`,
+    `--${boundary}\r\nContent-Disposition: form-data; name="operations"\r\n\r\n${JSON.stringify({ query })}\r\n--${boundary}--\r\n`
+  )
+
+  assert.equal(findings.length, 0)
+})
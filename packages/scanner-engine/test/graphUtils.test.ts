@@ -0,0 +1,60 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { GraphQLScalarType, buildSchema, graphql, print } from 'graphql'
+import { buildRootFieldOperation } from '../src/graphUtils'
+
+const schema = buildSchema(`
+  scalar ObjectID
+  scalar Point
+  scalar PositiveInt
+  type Place {
+    name: String
+  }
+  type Query {
+    places(owner: ObjectID!, near: Point!, limit: PositiveInt!): [Place]
+  }
+`)
+// Escalares que validan el formato como lo hacen graphql-scalars o GeoJSON
+const validated = (
+  type: GraphQLScalarType,
+  isValid: (value: unknown) => boolean
+) => {
+  type.parseValue = (value) => {
+    if (!isValid(value)) {
+      throw new TypeError(`${type.name} no válido: ${JSON.stringify(value)}`)
+    }
+    return value
+  }
+}
+validated(schema.getType('ObjectID') as GraphQLScalarType, (value) =>
+  /^[0-9a-f]{24}$/.test(String(value))
+)
+validated(schema.getType('Point') as GraphQLScalarType, (value) => {
+  const point = value as { type?: unknown; coordinates?: unknown }
+  return (
+    point?.type === 'Point' &&
+    Array.isArray(point.coordinates) &&
+    point.coordinates.length === 2
+  )
+})
+validated(
+  schema.getType('PositiveInt') as GraphQLScalarType,
+  (value) => Number.isInteger(value) && (value as number) > 0
+)
+
+test('sintetiza ObjectID, Point y PositiveInt con valores válidos', async () => {
+  const built = buildRootFieldOperation(schema, 'query', 'places')
+  assert.ok(built)
+  const result = await graphql({
+    schema,
+    source: print(built.document),
+    variableValues: built.variables,
+    rootValue: { places: () => [] },
+  })
+  assert.equal(result.errors, undefined)
+  assert.deepEqual(Object.values(built.variables), [
+    '507f1f77bcf86cd799439011',
+    { type: 'Point', coordinates: [0, 0] },
+    1,
+  ])
+})
@@ -0,0 +1,51 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as path from 'path'
+import { runScan } from '../src/index'
+
+// Grabado contra un servidor con `order(id: ID!)` sin autorización y que solo
+// acepta JSON por POST; con los checks bola y csrf
+const FIXTURE = path.join(__dirname, 'fixtures', 'bola-scan.har')
+
+test('reproduce un escaneo grabado en HAR sin red', async () => {
+  const result = await runScan({
+    id: 'replay',
+    url: 'http://localhost:4020/graphql',
+    userContexts: [
+      {
+        id: 'alice',
+        authToken: 'alice-token',
+        ownedObjectIds: { Order: ['1'] },
+      },
+      { id: 'bob', authToken: 'bob-token', ownedObjectIds: { Order: ['2'] } },
+    ],
+    checks: { enable: ['bola', 'csrf'] },
+    harConfig: { mode: 'replay', path: FIXTURE },
+  })
+
+  assert.equal(result.status, 'Completed')
+  assert.equal(result.requestCount, 8)
+  assert.deepEqual(
+    result.findings.map((f) => [f.check, f.severity, f.description]),
+    [
+      ['schema', 'Info', 'Introspection Habilitada'],
+      ['bola', 'High', 'BOLA Detectado'],
+      ['bola', 'High', 'BOLA Detectado'],
+    ]
+  )
+  assert.deepEqual(
+    result.findings
+      .filter((f) => f.check === 'bola')
+      .map((f) => [
+        f.location?.field,
+        f.location?.attacker,
+        f.location?.victim,
+      ]),
+    [
+      ['order', 'alice', 'bob'],
+      ['order', 'bob', 'alice'],
+    ]
+  )
+  // Cada hallazgo enlaza las peticiones del HAR que lo produjeron
+  assert.ok(result.findings.every((f) => f.requestIds?.length))
+})
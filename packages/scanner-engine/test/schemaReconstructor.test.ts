@@ -0,0 +1,77 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { AxiosInstance } from 'axios'
+import {
+  buildSchema,
+  getNamedType,
+  graphql,
+  GraphQLScalarType,
+  GraphQLSchema,
+} from 'graphql'
+import type { VulnerabilityFinding } from '@graphql-sentinel/shared-types'
+import { reconstructSchemaFromSuggestions } from '../src/schemaReconstructor'
+
+const SDL = `
+  scalar DateTime
+
+  type Event {
+    id: ID!
+    title: String
+  }
+
+  type Query {
+    events(dates: [DateTime!], limit: Int!, tags: [String!]!): [Event!]!
+  }
+`
+
+/** Cliente falso que ejecuta cada petición contra un schema graphql-js con sugerencias */
+function createGraphqlHttp(schema: GraphQLSchema): AxiosInstance {
+  return {
+    async post(_url: string, body: { query: string }) {
+      return {
+        status: 200,
+        data: await graphql({ schema, source: body.query }),
+      }
+    },
+  } as unknown as AxiosInstance
+}
+
+function buildServerSchema(): GraphQLSchema {
+  const schema = buildSchema(SDL)
+  // Un escalar propio que rechaza literales no válidos, como un DateTime real
+  const dateTime = schema.getType('DateTime') as GraphQLScalarType
+  dateTime.parseLiteral = () => {
+    throw new TypeError('DateTime cannot represent a non-string value')
+  }
+  return schema
+}
+
+test('reconstruye argumentos de lista y no nulos sin romper el SDL', async () => {
+  const findings: VulnerabilityFinding[] = []
+  const schema = await reconstructSchemaFromSuggestions(
+    {
+      id: 'test',
+      url: 'http://localhost/graphql',
+      userContexts: [],
+      schemaReconstruction: { wordlist: ['event', 'events', 'title'] },
+    },
+    {},
+    findings,
+    createGraphqlHttp(buildServerSchema())
+  )
+
+  assert.ok(schema, 'el schema reconstruido no debe ser null')
+  const events = schema.getQueryType()?.getFields().events
+  assert.ok(events)
+  const argTypes = Object.fromEntries(
+    events.args.map((arg) => [arg.name, String(arg.type)])
+  )
+  assert.equal(argTypes.dates, '[DateTime!]')
+  assert.equal(argTypes.limit, 'Int!')
+  assert.equal(argTypes.tags, '[String!]!')
+  assert.equal(getNamedType(events.type).name, 'Event')
+  assert.ok(schema.getType('DateTime'))
+  assert.ok(
+    findings.some((f) => f.description.startsWith('Sugerencias de Campos'))
+  )
+})
@@ -0,0 +1,103 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { AddressInfo } from 'net'
+import WebSocket from 'ws'
+import { AxiosInstance } from 'axios'
+import { buildSchema } from 'graphql'
+import { useServer } from 'graphql-ws/lib/use/ws'
+import type {
+  ScanTarget,
+  VulnerabilityFinding,
+} from '@graphql-sentinel/shared-types'
+import { runSubscriptionChecks } from '../src/subscriptionScanner'
+import { createScanPolicy } from '../src/scanPolicy'
+import { createRequestScheduler } from '../src/httpClient'
+import { createAuthManager } from '../src/authManager'
+
+// Servidor vulnerable: acepta conexiones anónimas y no comprueba de quién es el pedido
+const schema = buildSchema(`
+  type Order {
+    id: ID!
+    status: String
+  }
+  type Query {
+    health: Boolean
+  }
+  type Subscription {
+    announcements: String
+    orderUpdated(orderId: ID!): Order
+  }
+`)
+const roots = {
+  subscription: {
+    async *announcements() {
+      yield { announcements: 'Mantenimiento a las 22:00' }
+    },
+    async *orderUpdated({ orderId }: { orderId: string }) {
+      yield { orderUpdated: { id: orderId, status: 'SHIPPED' } }
+    },
+  },
+}
+
+test('detecta subscriptions anónimas y BOLA contra un servidor graphql-ws', async () => {
+  const server = new WebSocket.Server({ port: 0, path: '/graphql' })
+  await new Promise((resolve) => server.once('listening', resolve))
+  const cleanup = useServer({ schema, roots }, server)
+  const { port } = server.address() as AddressInfo
+
+  const target: ScanTarget = {
+    id: 'test',
+    url: `http://127.0.0.1:${port}/graphql`,
+    userContexts: [
+      {
+        id: 'alice',
+        authToken: 'alice-token',
+        ownedObjectIds: { Order: ['1'] },
+      },
+      { id: 'bob', authToken: 'bob-token', ownedObjectIds: { Order: ['2'] } },
+    ],
+    subscriptionConfig: {
+      protocols: ['graphql-transport-ws'],
+      eventTimeoutMs: 500,
+    },
+  }
+  const findings: VulnerabilityFinding[] = []
+  const http = {} as AxiosInstance // Las subscriptions no usan HTTP
+  try {
+    await runSubscriptionChecks({
+      target,
+      schema,
+      findings,
+      session: {
+        http,
+        policy: createScanPolicy(),
+        auth: createAuthManager(target, http),
+        scheduler: createRequestScheduler({ requestsPerSecond: 0 }),
+      },
+      headers: {},
+      options: {},
+    })
+  } finally {
+    await cleanup.dispose()
+    await new Promise((resolve) => server.close(resolve))
+  }
+
+  const anonymous = findings.find(
+    (f) => f.description === 'Subscriptions Accesibles sin Autenticación'
+  )
+  assert.ok(anonymous, 'falta el hallazgo de subscriptions anónimas')
+  assert.equal(anonymous.severity, 'High')
+  assert.equal(anonymous.confidence, 'High')
+
+  const bola = findings.filter(
+    (f) => f.description === 'BOLA en Subscription Detectado (orderUpdated)'
+  )
+  assert.deepEqual(
+    bola.map((f) => [f.evidence?.attackerContext, f.evidence?.victimContext]),
+    [
+      ['bob', 'alice'],
+      ['alice', 'bob'],
+    ]
+  )
+  assert.ok(bola.every((f) => f.severity === 'High'))
+})
@@ -1,27 +1,262 @@
 export interface UserContext {
   id: string // Identificador interno (ej: 'userA', 'adminUser', 'guest')
-  authToken: string
+  authToken?: string // Token estático (por defecto 'Authorization: Bearer <token>')
+  auth?: AuthConfig
   ownedObjectIds: {
     [objectType: string]: string[] // Ej: { 'order': ['123', '124'], 'document': ['docA'] }
   }
+  role?: string // Ej: 'admin', 'user', 'guest'
+  privilegeLevel?: number // Mayor número = más privilegios
+  // Operaciones esperadas por nombre o patrón con '*' (ej: 'deleteUser',
+  // 'admin*', 'mutation:*'). Si hay allowedOperations, el resto se espera denegado.
+  allowedOperations?: string[]
+  deniedOperations?: string[]
+}
+
+/** Autenticación de un UserContext además de (o en lugar de) authToken */
+export interface AuthConfig {
+  headers?: Record<string, string> // Cabeceras fijas (ej: { 'x-api-key': '...' })
+  cookies?: Record<string, string> // Se envían en la cabecera Cookie
+  tokenHeader?: string // Cabecera del token (por defecto Authorization)
+  tokenPrefix?: string // Prefijo del token (por defecto 'Bearer ')
+  login?: LoginFlow // Obtiene el token al inicio y de nuevo ante un 401
+}
+
+export type LoginFlow =
+  | {
+      type: 'graphql' // Operación de login contra el endpoint del target (o `url`)
+      url?: string
+      query: string
+      variables?: Record<string, unknown>
+      tokenPath?: string // Ruta del token en la respuesta (ej: 'data.login.token'); sin ella solo se usan las cookies
+    }
+  | {
+      type: 'client-credentials' // OAuth 2.0 client credentials
+      tokenUrl: string
+      clientId: string
+      clientSecret: string
+      scope?: string
+      audience?: string
+    }
+
+export interface QueryCostModel {
+  objectFieldCost: number // Coste de un campo con sub-selección
+  scalarFieldCost: number // Coste de un campo escalar
+  defaultListSize: number // Multiplicador para listas sin argumento de tamaño
+  listSizeArguments: string[] // Argumentos que fijan el tamaño (first, limit...)
+  fieldWeights: Record<string, number> // Pesos por 'Tipo.campo' o por 'campo'
+}
+
+/** Valores fijados por el usuario para los argumentos de las operaciones generadas */
+export interface ArgumentValueOverrides {
+  byType?: Record<string, unknown> // Por nombre de tipo (ej: 'DateTime', 'OrderStatus')
+  byArgument?: Record<string, unknown> // Por 'campo.argumento' o por 'argumento'
+}
+
+export type InjectionCategory =
+  | 'sql'
+  | 'nosql'
+  | 'command'
+  | 'ssrf'
+  | 'template'
+
+// graphql-ws usa 'graphql-transport-ws'; subscriptions-transport-ws (legacy) usa 'graphql-ws'
+export type SubscriptionProtocol = 'graphql-transport-ws' | 'graphql-ws'
+
+/** Política de seguridad del escaneo para entornos compartidos */
+export interface ScanPolicyConfig {
+  readOnly?: boolean // Modo seguro: nunca se ejecutan mutations
+  allowOperations?: string[] // Si se define, solo estas (ej: 'query:*', 'update*')
+  denyOperations?: string[] // Patrones que nunca se ejecutan
+  allowDestructiveMutations?: boolean // Por defecto se omiten delete/remove/cancel...
+  maxRequests?: number // Presupuesto total de peticiones HTTP del escaneo
+}
+
+export type CheckCategory =
+  | 'availability'
+  | 'authentication'
+  | 'authorization'
+  | 'injection'
+  | 'configuration'
+
+/** Capa HTTP compartida por todo el escaneo */
+export interface HttpClientConfig {
+  requestsPerSecond?: number // Por defecto 20; 0 desactiva el límite
+  maxConcurrency?: number // Peticiones simultáneas (por defecto 4)
+  maxRetries?: number // Reintentos ante 429/503 o conexión reiniciada (por defecto 3)
+  retryBaseDelayMs?: number // Backoff exponencial si no hay Retry-After (por defecto 1000)
+  maxRetryDelayMs?: number // Espera máxima entre reintentos (por defecto 30000)
+  // Timeout en ms por categoría de check; 'discovery' cubre schema y reconstrucción.
+  // El de 'injection' debe superar injectionConfig.timeDelaySeconds.
+  timeouts?: Partial<Record<CheckCategory | 'discovery', number>>
+}
+
+/** Grabación o reproducción del tráfico del escaneo en un fichero HAR */
+export interface HarConfig {
+  mode: 'record' | 'replay'
+  path: string // HAR a escribir (record) o desde el que responder sin red (replay)
+  replayLatency?: boolean // Espera la latencia grabada de cada respuesta (por defecto no)
+}
+
+/** Selección de checks del escaneo (por id, ej: 'bola', o por categoría, ej: 'authorization') */
+export interface ChecksConfig {
+  enable?: string[] // Si se define, solo se ejecutan estos checks
+  disable?: string[] // Checks que nunca se ejecutan
+  options?: Record<string, Record<string, unknown>> // Configuración por id de check
 }
 
 export interface ScanTarget {
   id: string
   url: string
-  schema?: string
+  schema?: string // Ruta a un archivo SDL (.graphql/.gql), a un resultado de introspection (.json) o URL http(s)
   userContexts: UserContext[]
   bolaConfig?: {
     targetObjectTypes?: string[]
   }
+  dosConfig?: {
+    maxAcceptableDepth?: number // Profundidad máxima considerada aceptable (por defecto 10)
+    maxDepthProbe?: number // Profundidad máxima a probar en la búsqueda (por defecto 64)
+    costModel?: Partial<QueryCostModel>
+    maxAcceptableCost?: number // Coste estimado máximo considerado aceptable
+    maxProbeCost?: number // Nunca se envían queries con coste estimado superior
+  }
+  batchingConfig?: {
+    fieldName?: string // Campo a repetir; una mutation solo se repite si se indica aquí
+    maxBatchSize?: number
+    maxAliasCount?: number
+  }
+  schemaReconstruction?: {
+    enabled?: boolean // Por defecto se intenta si no hay schema disponible
+    wordlist?: string[]
+    wordlistPath?: string // Archivo con una palabra por línea
+    maxDepth?: number
+    maxRequests?: number
+  }
+  unauthenticatedConfig?: {
+    enabled?: boolean // Por defecto se ejecuta si hay schema
+    includeMutations?: boolean // Por defecto también se prueban las mutations
+  }
+  argumentValues?: ArgumentValueOverrides
+  scanPolicy?: ScanPolicyConfig
+  checks?: ChecksConfig
+  httpConfig?: HttpClientConfig
+  harConfig?: HarConfig
+  injectionConfig?: {
+    enabled?: boolean // Por defecto se ejecuta si hay schema
+    categories?: InjectionCategory[] // Por defecto todas
+    maxArguments?: number // Máximo de argumentos a probar (por defecto 50)
+    timeDelaySeconds?: number // Retardo de los payloads basados en tiempo (por defecto 5)
+  }
+  subscriptionConfig?: {
+    enabled?: boolean // Por defecto se ejecuta si el schema tiene subscriptions
+    url?: string // Endpoint WebSocket (por defecto la URL del target con ws:// o wss://)
+    protocols?: SubscriptionProtocol[] // Por defecto ambos subprotocolos
+    eventTimeoutMs?: number // Espera tras suscribirse antes de darla por aceptada (por defecto 3000)
+  }
+  csrfConfig?: {
+    enabled?: boolean // Por defecto se ejecuta siempre
+    includeMutations?: boolean // Por defecto prueba `mutation { __typename }` por GET
+    mutationFieldName?: string // Mutation real a probar por GET en su lugar (se ejecuta)
+  }
+}
+
+/** Dónde se produce un hallazgo; junto al check y el título forma su fingerprint */
+export interface FindingLocation {
+  operation?: 'query' | 'mutation' | 'subscription'
+  field?: string
+  argument?: string
+  attacker?: string // Rol (o id) del contexto atacante
+  victim?: string // Rol (o id) del contexto víctima
+  detail?: string // Otro discriminante estable (ej: el valor de una fuga de información)
+}
+
+/** Tipo de problema, para filtrar y agrupar en el triage */
+export type FindingCategory =
+  | 'DoS'
+  | 'BOLA'
+  | 'BFLA'
+  | 'Introspection'
+  | 'Injection'
+  | 'InformationDisclosure'
+  | 'Batching'
+  | 'CSRF'
+  | 'Authentication'
+  | 'ScanError' // El chequeo no pudo completarse; no es una vulnerabilidad
+
+/** Certeza del hallazgo: confirmado con datos, inferido o solo indicio */
+export type FindingConfidence = 'High' | 'Medium' | 'Low'
+
+/** Petición lista para reproducir el hallazgo (los secretos se redactan) */
+export interface FindingReproduction {
+  method: 'GET' | 'POST'
+  url: string
+  headers: Record<string, string>
+  body?: string
+  curl: string
+}
+
+/** Aparición concreta de un hallazgo agrupado con otros del mismo fingerprint */
+export interface FindingOccurrence {
+  recommendation: string
+  evidence?: Record<string, unknown>
+  requestIds?: string[]
 }
 
 export interface VulnerabilityFinding {
-  id: string
+  id: string // Igual al fingerprint una vez procesado por el motor
   severity: 'Critical' | 'High' | 'Medium' | 'Low' | 'Info'
   description: string
   recommendation: string
   evidence?: Record<string, unknown>
+  requestIds?: string[] // Entradas del HAR (harConfig) de las que sale el hallazgo
+  check?: string // Paso que lo generó: id del check, 'schema', 'disclosure'...
+  category?: FindingCategory
+  cwe?: string // Ej: 'CWE-639'
+  owasp?: string // OWASP API Security Top 10 2023, ej: 'API1:2023'
+  confidence?: FindingConfidence
+  location?: FindingLocation // Operación, campo y argumento afectados
+  reproduction?: FindingReproduction
+  fingerprint?: string // Estable entre escaneos: check + título + location
+  occurrences?: FindingOccurrence[] // Todas las apariciones si se agruparon varias
+}
+
+/** Check disponible en el motor (se haya ejecutado u omitido) */
+export interface CheckSummary {
+  id: string
+  category: CheckCategory
+  description: string
+}
+
+export type SchemaSourceKind =
+  | 'sdl-file'
+  | 'introspection-file'
+  | 'url'
+  | 'introspection'
+  | 'suggestions'
+  | 'none'
+
+export interface SchemaSource {
+  kind: SchemaSourceKind
+  location?: string // Ruta o URL desde donde se cargó el schema
+}
+
+export type SkipReason =
+  | 'read-only'
+  | 'denied'
+  | 'not-allowed'
+  | 'destructive'
+  | 'request-budget'
+  | 'disabled' // Desactivado en `checks`
+  | 'missing-schema'
+  | 'missing-contexts'
+  | 'har-replay' // Usa WebSocket, que no queda en el HAR
+
+/** Operación o chequeo que la política impidió ejecutar */
+export interface SkippedOperation {
+  check: string // bola, bfla, dos...
+  operation?: 'query' | 'mutation' | 'subscription'
+  fieldName?: string
+  reason: SkipReason
 }
 
 export interface ScanResult {
@@ -29,7 +264,53 @@ export interface ScanResult {
   target: ScanTarget
   status: 'Queued' | 'Running' | 'Completed' | 'Failed'
   findings: VulnerabilityFinding[]
+  schemaSource?: SchemaSource
+  skippedOperations?: SkippedOperation[]
+  checks?: CheckSummary[]
+  requestCount?: number
   error?: string
   startedAt?: Date
   completedAt?: Date
 }
+
+/** Hallazgo aceptado en una ejecución anterior; se compara por fingerprint */
+export interface BaselineFinding {
+  fingerprint: string
+  severity: VulnerabilityFinding['severity']
+  description: string
+  check?: string
+  location?: FindingLocation
+}
+
+export interface FindingBaseline {
+  version: 1
+  createdAt: string // ISO 8601
+  target: string // URL escaneada
+  scanId: string
+  findings: BaselineFinding[]
+}
+
+/** Hallazgo aceptado explícitamente; deja de aplicarse al pasar `expiresAt` */
+export interface FindingSuppression {
+  fingerprint: string
+  justification: string
+  expiresAt?: string // Fecha ISO 8601; sin ella no caduca
+}
+
+export interface SuppressionFile {
+  suppressions: FindingSuppression[]
+}
+
+export interface SuppressedFinding {
+  finding: VulnerabilityFinding
+  suppression: FindingSuppression
+}
+
+/** Comparación del escaneo actual con la baseline y las supresiones */
+export interface FindingDiff {
+  new: VulnerabilityFinding[] // Ni en la baseline ni suprimidos
+  unchanged: VulnerabilityFinding[] // Ya estaban en la baseline
+  fixed: BaselineFinding[] // En la baseline pero no en este escaneo
+  suppressed: SuppressedFinding[]
+  expiredSuppressions: FindingSuppression[]
+}